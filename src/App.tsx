@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { AddressConfig } from './components/AddressConfig';
+import { BatchProcessor } from './components/BatchProcessor';
 import { motion, AnimatePresence } from 'framer-motion';
 
 function App() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans text-slate-900 selection:bg-blue-100 selection:text-blue-900">
@@ -23,7 +24,7 @@ function App() {
 
       <main className="pt-32 pb-20 px-6">
         <AnimatePresence mode="wait">
-          {!file ? (
+          {files.length === 0 ? (
             <motion.div
               key="upload"
               initial={{ opacity: 0, y: 20 }}
@@ -42,7 +43,7 @@ function App() {
                 </p>
               </div>
 
-              <FileUpload onFileSelect={setFile} />
+              <FileUpload onFilesSelect={setFiles} />
             </motion.div>
           ) : (
             <motion.div
@@ -52,7 +53,11 @@ function App() {
               exit={{ opacity: 0, scale: 0.95 }}
               transition={{ duration: 0.4, delay: 0.1 }}
             >
-              <AddressConfig file={file} onReset={() => setFile(null)} />
+              {files.length === 1 ? (
+                <AddressConfig file={files[0]} onReset={() => setFiles([])} />
+              ) : (
+                <BatchProcessor files={files} onReset={() => setFiles([])} />
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { DEFAULT_CONFIG, regionsOf, rulesOf, type Mode, type ReplaceRule, type SavedConfig } from './lib/config';
+import { DEFAULT_COVER, type CoverOptions } from './lib/cover';
+import type { CustomFont } from './lib/custom-font';
+import type { ReplacementGraphic } from './lib/graphic';
+import { NO_OFFSET, NO_TRANSFORM, type AutoAlignOptions, type PageOffset, type PageTransform } from './lib/layout';
+import type { Match } from './lib/pdf-utils';
+import { migrateConfig } from './lib/profiles';
+import type { FontChoice } from './lib/replacement-font';
+import { DEFAULT_TEXT_LAYOUT, type TextLayout } from './lib/text-layout';
+
+/**
+ * The settings a profile saves, as state shared by the single-file and batch
+ * screens. `applyConfig` replaces every setting, using the defaults for
+ * anything the config leaves out; `currentConfig` reads them back for saving.
+ */
+export function useAddressSettings() {
+    const [mode, setMode] = useState<Mode>('auto');
+    const [rules, setRules] = useState<ReplaceRule[]>([{ find: '', replace: '', enabled: true }]);
+    const [newAddress, setNewAddress] = useState('123 New Address St,\nNew City, State 12345');
+    // Drawn regions; a region's `replacement` overrides the shared address.
+    const [manualRegions, setManualRegions] = useState<Match[]>([]);
+    const [snapToText, setSnapToText] = useState(false);
+    const [applyToAll, setApplyToAll] = useState(false);
+    // Page selector for auto matches and repeated regions; empty means every page.
+    const [pages, setPages] = useState('');
+    // One shift for every page, plus per-page corrections by page index.
+    const [pageShift, setPageShift] = useState<PageOffset>(NO_OFFSET);
+    const [pageShifts, setPageShifts] = useState<(PageOffset | null)[]>([]);
+    const [autoAlign, setAutoAlign] = useState<AutoAlignOptions | null>(null);
+    const [transform, setTransform] = useState<PageTransform>(NO_TRANSFORM);
+    const [redact, setRedact] = useState(false);
+    const [font, setFont] = useState<FontChoice>('auto');
+    const [customFont, setCustomFont] = useState<CustomFont | null>(null);
+    const [textLayout, setTextLayout] = useState<TextLayout>(DEFAULT_TEXT_LAYOUT);
+    const [cover, setCover] = useState<CoverOptions>(DEFAULT_COVER);
+    const [graphic, setGraphic] = useState<ReplacementGraphic | null>(null);
+
+    const applyConfig = (saved: SavedConfig) => {
+        const config = { ...DEFAULT_CONFIG, ...migrateConfig(saved) };
+        const savedRules = rulesOf(config);
+        setMode(config.mode);
+        setRules(savedRules.length > 0 ? savedRules : rulesOf(DEFAULT_CONFIG));
+        setNewAddress(config.newAddress || DEFAULT_CONFIG.newAddress);
+        setManualRegions(regionsOf(config));
+        setSnapToText(config.snapToText ?? false);
+        setApplyToAll(config.applyToAll ?? false);
+        setPages(config.pages ?? '');
+        setPageShift(config.pageShift ?? NO_OFFSET);
+        setPageShifts(config.pageShifts ?? []);
+        setAutoAlign(config.autoAlign ?? null);
+        setTransform(config.transform ?? NO_TRANSFORM);
+        setRedact(config.redact ?? false);
+        setFont(config.font ?? 'auto');
+        setCustomFont(config.customFont ?? null);
+        setTextLayout(config.textLayout ?? DEFAULT_TEXT_LAYOUT);
+        setCover(config.cover ?? DEFAULT_COVER);
+        setGraphic(config.graphic ?? null);
+    };
+
+    const currentConfig = (): SavedConfig => ({
+        mode,
+        rules,
+        searchText: rules[0]?.find ?? '',
+        newAddress,
+        manualRegions,
+        manualSelection: manualRegions[0] ?? null,
+        snapToText,
+        applyToAll,
+        pages,
+        pageShift,
+        pageShifts,
+        autoAlign,
+        transform,
+        redact,
+        font,
+        customFont,
+        textLayout,
+        cover,
+        graphic
+    });
+
+    return {
+        mode, setMode,
+        rules, setRules,
+        newAddress, setNewAddress,
+        manualRegions, setManualRegions,
+        snapToText, setSnapToText,
+        applyToAll, setApplyToAll,
+        pages, setPages,
+        pageShift, setPageShift,
+        pageShifts, setPageShifts,
+        autoAlign, setAutoAlign,
+        transform, setTransform,
+        redact, setRedact,
+        font, setFont,
+        customFont, setCustomFont,
+        textLayout, setTextLayout,
+        cover, setCover,
+        graphic, setGraphic,
+        applyConfig,
+        currentConfig
+    };
+}
@@ -0,0 +1,86 @@
+import { alignPages, NO_TRANSFORM, unionBoxes, type AutoAlignOptions, type PageContent, type PageOffset, type PageTransform } from './lib/layout';
+import type { Rect } from './lib/matrix';
+import { textBounds } from './lib/pdf-utils';
+import { loadPdfDocument } from './lib/pdfjs';
+
+// Pages are rendered small; a point or two of precision is plenty for margins.
+const RENDER_SCALE = 0.5;
+// Pixels darker than this (0-255, averaged over the channels) count as ink.
+const INK_LEVEL = 200;
+// A row or column needs this share of ink pixels to count, which skips scanner specks.
+const MIN_INK_SHARE = 0.002;
+
+function inkRange(counts: Uint32Array, min: number): [number, number] | null {
+    let first = -1, last = -1;
+    for (let i = 0; i < counts.length; i++) {
+        if (counts[i] < min) continue;
+        if (first === -1) first = i;
+        last = i;
+    }
+    return first === -1 ? null : [first, last + 1];
+}
+
+/**
+ * The bounds of each page's ink, found by rendering it, in PDF user space.
+ * Unlike the text layer this also sees images, drawings and scanned text.
+ */
+export async function renderedBounds(data: Uint8Array): Promise<(Rect | null)[]> {
+    const doc = await loadPdfDocument(data);
+    const bounds: (Rect | null)[] = [];
+    try {
+        for (let p = 1; p <= doc.numPages; p++) {
+            const page = await doc.getPage(p);
+            const viewport = page.getViewport({ scale: RENDER_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            const context = canvas.getContext('2d', { willReadFrequently: true });
+            if (!context) throw new Error("Canvas 2D context is not available.");
+            await page.render({ canvasContext: context, viewport }).promise;
+
+            const { data: pixels, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+            const rows = new Uint32Array(height);
+            const cols = new Uint32Array(width);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = (y * width + x) * 4;
+                    if (pixels[i] + pixels[i + 1] + pixels[i + 2] < INK_LEVEL * 3) {
+                        rows[y]++;
+                        cols[x]++;
+                    }
+                }
+            }
+
+            const ys = inkRange(rows, Math.max(1, width * MIN_INK_SHARE));
+            const xs = inkRange(cols, Math.max(1, height * MIN_INK_SHARE));
+            if (!ys || !xs) {
+                bounds.push(null);
+                continue;
+            }
+            const [x1, y1] = viewport.convertToPdfPoint(xs[0], ys[0]);
+            const [x2, y2] = viewport.convertToPdfPoint(xs[1], ys[1]);
+            bounds.push({ x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) });
+        }
+    } finally {
+        doc.destroy();
+    }
+    return bounds;
+}
+
+/**
+ * Each page's geometry and the bounds of everything on it, from both the text
+ * layer and the rendered pixels.
+ */
+export async function measurePages(data: Uint8Array): Promise<PageContent[]> {
+    const text = await textBounds(data);
+    const ink = await renderedBounds(data);
+    return text.map((page, i) => ({ ...page, content: unionBoxes([page.content, ink[i] ?? null]) }));
+}
+
+/**
+ * Per-page shifts that align each page's content as `options` asks, once
+ * `transform` is applied. Pages with nothing on them get null.
+ */
+export async function autoAlignOffsets(data: Uint8Array, options: AutoAlignOptions, transform: PageTransform = NO_TRANSFORM): Promise<(PageOffset | null)[]> {
+    return alignPages(await measurePages(data), options, transform);
+}
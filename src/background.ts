@@ -0,0 +1,49 @@
+import { borderColor, type BackgroundSampler, type CoverArea, type Rgb } from './lib/cover';
+import { loadPdfDocument } from './lib/pdfjs';
+
+// About 144 dpi: enough to see a thin sidebar edge, cheap enough to redo on every preview.
+const RENDER_SCALE = 2;
+// Width of the ring sampled around each cover, in pixels.
+const BAND = 4;
+
+/**
+ * Samples cover colours by rendering pages with pdf.js on a canvas. Each
+ * sampler remembers the colours it found, keyed by page and rectangle, so it
+ * should be used for a single document.
+ */
+export function createBackgroundSampler(): BackgroundSampler {
+    const known = new Map<string, Rgb | null>();
+    const keyOf = ({ pageIndex, rect }: CoverArea) => `${pageIndex}:${rect.x},${rect.y},${rect.width},${rect.height}`;
+
+    return {
+        async sample(data, areas) {
+            const missing = areas.filter(area => !known.has(keyOf(area)));
+            if (missing.length > 0) {
+                const doc = await loadPdfDocument(data);
+                try {
+                    for (const pageIndex of new Set(missing.map(area => area.pageIndex))) {
+                        const page = await doc.getPage(pageIndex + 1);
+                        const viewport = page.getViewport({ scale: RENDER_SCALE });
+                        const canvas = document.createElement('canvas');
+                        canvas.width = Math.ceil(viewport.width);
+                        canvas.height = Math.ceil(viewport.height);
+                        const context = canvas.getContext('2d', { willReadFrequently: true });
+                        if (!context) throw new Error("Canvas 2D context is not available.");
+                        await page.render({ canvasContext: context, viewport }).promise;
+                        const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+                        canvas.width = canvas.height = 0;
+
+                        for (const area of missing.filter(a => a.pageIndex === pageIndex)) {
+                            const { x, y, width, height } = area.rect;
+                            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + width, y + height]);
+                            known.set(keyOf(area), borderColor(pixels, Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2), BAND));
+                        }
+                    }
+                } finally {
+                    doc.destroy();
+                }
+            }
+            return areas.map(area => known.get(keyOf(area)) ?? null);
+        },
+    };
+}
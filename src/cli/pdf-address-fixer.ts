@@ -0,0 +1,401 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import fg from 'fast-glob';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { DEFAULT_COVER, isHexColor, type CoverOptions } from '../lib/cover';
+import { loadCustomFont, missingCharacters, type CustomFont } from '../lib/custom-font';
+import { fitsQrCode, loadImageFile, type ImageFit, type ReplacementGraphic } from '../lib/graphic';
+import { isIdentityTransform, NO_CROP, PAPER_SIZES, type PageTransform, type PaperSize, type QuarterTurn } from '../lib/layout';
+import { parsePageSelector, resolvePages } from '../lib/page-selector';
+import { findMatches, type Match } from '../lib/pdf-utils';
+import { applyChanges, countPages, RedactionCheckError } from '../lib/pipeline';
+import type { FontChoice } from '../lib/replacement-font';
+import { DEFAULT_TEXT_LAYOUT, type TextAlign, type TextAnchor, type TextLayout } from '../lib/text-layout';
+import { DEFAULT_FUZZY_THRESHOLD, compilePattern, type MatchMode } from '../lib/text-match';
+
+const USAGE = `Usage: pdf-address-fixer [options] <input globs...>
+
+Replaces an address in every matching PDF and writes the results to --out.
+
+Options:
+  --find <text>          Old address text to search for
+  --match <mode>         How --find matches: exact (default), regex or fuzzy
+  --threshold <0-1>      Minimum similarity for fuzzy matches (default 0.8)
+  --pages <list>         Only replace --find matches on these pages, e.g.
+                         1,3-5,odd,last,-2 (-2 is the second-to-last page)
+  --replace <text>       New address (use \\n for line breaks)
+  --region <p,x,y,w,h>   Replace a fixed region instead of (or as well as) searching.
+                         Page is 1-based; x, y, width and height are PDF points
+                         from the bottom-left corner. Repeatable.
+  --shift-x <pt>         Move page content right by this many points
+  --shift-y <pt>         Move page content down by this many points
+  --rotate <deg>         Turn every page clockwise by 90, 180 or 270 degrees
+  --deskew <deg>         Straighten pages by a small clockwise angle
+  --crop <t,r,b,l>       Trim this many points from the top, right, bottom and left
+  --fit <paper>          Scale pages to fit A4 or Letter
+  --redact               Remove the old text from the PDF instead of covering it
+  --cover <#rrggbb>      Colour painted over the old text (default #ffffff)
+  --padding <t,r,b,l>    How far that cover reaches past the old text, in points
+                         (default 3,2,2,2)
+  --font <name>          "auto" (default) or a standard font, e.g. Helvetica-Bold
+  --font-file <path>     TrueType or OpenType font for the new text, for
+                         characters the standard fonts lack (e.g. Polish, Greek, CJK)
+  --align <side>         Align new text left, center (default) or right in its box
+  --anchor <pos>         Put new text at the top, middle or baseline of its box;
+                         auto (default) uses the old baseline, or the middle of
+                         a --region
+  --line-height <n>      Line spacing as a multiple of the font size
+                         (default: the old text's, or 1.2)
+  --no-wrap              Only break lines at \\n, not to fit the box width
+  --no-shrink            Keep the font size even if the text doesn't fit
+  --image <path>         Draw a PNG or JPEG image (e.g. a logo) instead of
+                         --replace; convert SVG files to PNG first
+  --qr <text>            Draw a QR code of this text instead of --replace
+  --image-fit <mode>     How the image or QR code fills its box: contain
+                         (default), cover (cropped) or stretch
+  -o, --out <dir>        Output directory (required)
+  -h, --help             Show this help
+
+Exit codes: 0 on success, 1 if any file had no matches or failed, 2 on usage errors.`;
+
+class UsageError extends Error { }
+
+interface CliOptions {
+    inputs: string[];
+    find?: string;
+    match: MatchMode;
+    threshold: number;
+    pages?: string;
+    replace: string;
+    regions: Match[];
+    shiftX: number;
+    shiftY: number;
+    transform: PageTransform;
+    redact: boolean;
+    font: FontChoice;
+    fontFile?: string;
+    /** Loaded from `fontFile` by `loadFont`. */
+    customFont: CustomFont | null;
+    layout: TextLayout;
+    cover: CoverOptions;
+    imageFile?: string;
+    /** Made from `imageFile` by `loadImage`, or from --qr. */
+    graphic: ReplacementGraphic | null;
+    outDir: string;
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+    if (value === undefined) return 0;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new UsageError(`${flag} expects a number, got "${value}"`);
+    return n;
+}
+
+function parseRegion(value: string): Match {
+    const parts = value.split(',').map(Number);
+    if (parts.length !== 5 || parts.some(n => !Number.isFinite(n)) || parts[0] < 1 || !Number.isInteger(parts[0])) {
+        throw new UsageError(`--region expects "page,x,y,width,height", got "${value}"`);
+    }
+    const [page, x, y, width, height] = parts;
+    return { pageIndex: page - 1, x, y, width, height, text: 'Region' };
+}
+
+function parseTransform(values: { rotate?: string, deskew?: string, crop?: string, fit?: string }): PageTransform {
+    const rotate = parseNumber('--rotate', values.rotate);
+    if (![0, 90, 180, 270].includes(rotate)) throw new UsageError('--rotate must be 90, 180 or 270.');
+
+    let crop = NO_CROP;
+    if (values.crop !== undefined) {
+        const parts = values.crop.split(',').map(Number);
+        if (parts.length !== 4 || parts.some(n => !Number.isFinite(n) || n < 0)) {
+            throw new UsageError(`--crop expects "top,right,bottom,left" in points, got "${values.crop}"`);
+        }
+        const [top, right, bottom, left] = parts;
+        crop = { top, right, bottom, left };
+    }
+
+    const fitTo = values.fit === undefined ? null : Object.keys(PAPER_SIZES).find(size => size.toLowerCase() === values.fit!.toLowerCase());
+    if (fitTo === undefined) throw new UsageError(`Unknown --fit "${values.fit}": use ${Object.keys(PAPER_SIZES).join(' or ')}.`);
+
+    return { crop, rotate: rotate as QuarterTurn, deskew: parseNumber('--deskew', values.deskew), fitTo: fitTo as PaperSize | null };
+}
+
+function parseLayout(values: { align?: string, anchor?: string, 'line-height'?: string, 'no-wrap': boolean, 'no-shrink': boolean }): TextLayout {
+    const align = (values.align ?? DEFAULT_TEXT_LAYOUT.align) as TextAlign;
+    if (!['left', 'center', 'right'].includes(align)) throw new UsageError(`Unknown --align "${values.align}"`);
+    const anchor = (values.anchor ?? DEFAULT_TEXT_LAYOUT.anchor) as TextAnchor;
+    if (!['auto', 'top', 'middle', 'baseline'].includes(anchor)) throw new UsageError(`Unknown --anchor "${values.anchor}"`);
+    const lineHeight = values['line-height'] === undefined ? null : parseNumber('--line-height', values['line-height']);
+    if (lineHeight !== null && lineHeight <= 0) throw new UsageError('--line-height must be above 0.');
+    return { align, anchor, lineHeight, wrap: !values['no-wrap'], shrinkToFit: !values['no-shrink'] };
+}
+
+function parseCover(values: { cover?: string, padding?: string }): CoverOptions {
+    // Matching the page colour needs pages rendered, which the CLI can't do, so covers default to white.
+    const fill = values.cover ?? '#ffffff';
+    if (!isHexColor(fill)) throw new UsageError(`--cover expects a colour such as #f5f0e6, got "${values.cover}"`);
+
+    let padding = DEFAULT_COVER.padding;
+    if (values.padding !== undefined) {
+        const parts = values.padding.split(',').map(Number);
+        if (parts.length !== 4 || parts.some(n => !Number.isFinite(n) || n < 0)) {
+            throw new UsageError(`--padding expects "top,right,bottom,left" in points, got "${values.padding}"`);
+        }
+        const [top, right, bottom, left] = parts;
+        padding = { top, right, bottom, left };
+    }
+    return { fill, padding };
+}
+
+function parseGraphic(values: { qr?: string, 'image-fit'?: string }): ReplacementGraphic | null {
+    const fit = (values['image-fit'] ?? 'contain') as ImageFit;
+    if (!['contain', 'cover', 'stretch'].includes(fit)) throw new UsageError(`Unknown --image-fit "${values['image-fit']}"`);
+    if (values.qr === undefined) return null;
+    const text = values.qr.replace(/\\n/g, '\n');
+    if (!text) throw new UsageError('--qr needs some text to encode.');
+    if (!fitsQrCode(text)) throw new UsageError('--qr text is too long for a QR code.');
+    return { source: { kind: 'qr', text }, fit };
+}
+
+function parseOptions(argv: string[]): CliOptions | null {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            find: { type: 'string' },
+            match: { type: 'string', default: 'exact' },
+            threshold: { type: 'string' },
+            pages: { type: 'string' },
+            replace: { type: 'string' },
+            region: { type: 'string', multiple: true },
+            'shift-x': { type: 'string' },
+            'shift-y': { type: 'string' },
+            rotate: { type: 'string' },
+            deskew: { type: 'string' },
+            crop: { type: 'string' },
+            fit: { type: 'string' },
+            redact: { type: 'boolean', default: false },
+            cover: { type: 'string' },
+            padding: { type: 'string' },
+            font: { type: 'string', default: 'auto' },
+            'font-file': { type: 'string' },
+            align: { type: 'string' },
+            anchor: { type: 'string' },
+            'line-height': { type: 'string' },
+            'no-wrap': { type: 'boolean', default: false },
+            'no-shrink': { type: 'boolean', default: false },
+            image: { type: 'string' },
+            qr: { type: 'string' },
+            'image-fit': { type: 'string' },
+            out: { type: 'string', short: 'o' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) return null;
+
+    const font = values.font as FontChoice;
+    if (font !== 'auto' && !(Object.values(StandardFonts) as string[]).includes(font)) {
+        throw new UsageError(`Unknown --font "${values.font}"`);
+    }
+    if (values['font-file'] !== undefined && font !== 'auto') throw new UsageError('Give either --font or --font-file, not both.');
+
+    const match = values.match as MatchMode;
+    if (match !== 'exact' && match !== 'regex' && match !== 'fuzzy') {
+        throw new UsageError(`Unknown --match "${values.match}"`);
+    }
+    const threshold = values.threshold === undefined ? DEFAULT_FUZZY_THRESHOLD : parseNumber('--threshold', values.threshold);
+    if (threshold < 0 || threshold > 1) throw new UsageError('--threshold must be between 0 and 1.');
+    if (match === 'regex' && values.find) {
+        try {
+            compilePattern(values.find);
+        } catch (e) {
+            throw new UsageError(e instanceof Error ? e.message : String(e));
+        }
+    }
+
+    if (values.image !== undefined && values.qr !== undefined) throw new UsageError('Give either --image or --qr, not both.');
+    if (values.image !== undefined && path.extname(values.image).toLowerCase() === '.svg') {
+        throw new UsageError('--image can\'t read SVG files here; convert the SVG to PNG first.');
+    }
+
+    if (values.pages !== undefined) {
+        try {
+            parsePageSelector(values.pages);
+        } catch (e) {
+            throw new UsageError(`--pages: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    const options: CliOptions = {
+        inputs: positionals,
+        find: values.find,
+        match,
+        threshold,
+        pages: values.pages,
+        replace: (values.replace ?? '').replace(/\\n/g, '\n'),
+        regions: (values.region ?? []).map(parseRegion),
+        shiftX: parseNumber('--shift-x', values['shift-x']),
+        shiftY: parseNumber('--shift-y', values['shift-y']),
+        transform: parseTransform(values),
+        redact: values.redact,
+        font: values['font-file'] !== undefined ? 'custom' : font,
+        fontFile: values['font-file'],
+        customFont: null,
+        layout: parseLayout(values),
+        cover: parseCover(values),
+        imageFile: values.image,
+        graphic: parseGraphic(values),
+        outDir: values.out ?? '',
+    };
+
+    if (options.inputs.length === 0) throw new UsageError('No input files given.');
+    if (!options.outDir) throw new UsageError('--out is required.');
+    const drawsPicture = options.imageFile !== undefined || options.graphic !== null;
+    if ((options.find || options.regions.length > 0) && values.replace === undefined && !drawsPicture) {
+        throw new UsageError('--replace, --image or --qr is required with --find or --region.');
+    }
+    if (!options.find && options.regions.length === 0 && options.shiftX === 0 && options.shiftY === 0 && isIdentityTransform(options.transform)) {
+        throw new UsageError('Nothing to do: give --find, --region, a shift or a page transform.');
+    }
+    return options;
+}
+
+/**
+ * Reads --font-file, then checks that the chosen font can draw --replace. A
+ * standard font that can't is a usage error; with "auto" the document's own
+ * font may still have the characters, so that is only a warning.
+ */
+async function loadFont(options: CliOptions): Promise<void> {
+    if (options.fontFile) {
+        try {
+            options.customFont = loadCustomFont(path.basename(options.fontFile), new Uint8Array(await readFile(options.fontFile)));
+        } catch (e) {
+            throw new UsageError(`--font-file: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    // Pictures are drawn instead of --replace, which then only fills form fields in their own font.
+    if (options.imageFile !== undefined || options.graphic) return;
+    const missing = await missingCharacters([options.replace], options.font, options.customFont);
+    if (missing.length === 0) return;
+    const message = `The font can't draw these characters of --replace: ${missing.join(' ')}`;
+    if (options.font !== 'auto') throw new UsageError(`${message}. Use --font-file with a font that has them.`);
+    console.warn(`${message} unless the document's own font has them. Use --font-file to be sure.`);
+}
+
+/** Reads --image. */
+async function loadImage(options: CliOptions): Promise<void> {
+    if (options.imageFile === undefined) return;
+    try {
+        const source = loadImageFile(path.basename(options.imageFile), new Uint8Array(await readFile(options.imageFile)));
+        options.graphic = { source, fit: options.graphic?.fit ?? 'contain' };
+    } catch (e) {
+        throw new UsageError(`--image: ${e instanceof Error ? e.message : e}`);
+    }
+}
+
+/**
+ * Mirrors the input's path below the output directory so files with the same
+ * name in different folders don't overwrite each other.
+ */
+function outputPathFor(input: string, outDir: string): string {
+    const relative = path.relative(process.cwd(), input);
+    const safe = relative.startsWith('..') || path.isAbsolute(relative) ? path.basename(input) : relative;
+    return path.join(outDir, safe);
+}
+
+/**
+ * Processes one file. Returns false when the file had no matches or failed verification.
+ */
+async function processFile(input: string, options: CliOptions): Promise<boolean> {
+    const data = new Uint8Array(await readFile(input));
+    let matches = options.regions;
+
+    if (matches.length > 0) {
+        // Like a selection in the app, text in a region reads upright on rotated pages.
+        const pages = (await PDFDocument.load(data)).getPages();
+        matches = matches.map(region => {
+            const angle = pages[region.pageIndex]?.getRotation().angle ?? 0;
+            return angle % 360 !== 0 ? { ...region, rotation: angle } : region;
+        });
+    }
+
+    if (options.find) {
+        const pages = options.pages !== undefined ? resolvePages(options.pages, await countPages(data)) : undefined;
+        const found = await findMatches(data, options.find, { mode: options.match, threshold: options.threshold }, pages);
+        if (found.length === 0) {
+            console.error(`${input}: no matches for "${options.find}"`);
+            return false;
+        }
+        matches = [...matches, ...found];
+    }
+
+    let output: Uint8Array;
+    try {
+        output = await applyChanges(data, matches, {
+            newText: options.replace,
+            redact: options.redact,
+            font: options.font,
+            customFont: options.customFont,
+            layout: options.layout,
+            onFitWarnings: warnings => warnings.forEach(warning => console.warn(`${input}: ${warning}`)),
+            cover: options.cover,
+            graphic: options.graphic,
+            shift: { x: options.shiftX, y: options.shiftY },
+            transform: options.transform,
+            onLayoutWarnings: warnings => warnings.forEach(warning => console.warn(`${input}: ${warning}`)),
+            searches: options.find ? [{ text: options.find, mode: options.match }] : [],
+        });
+    } catch (e) {
+        if (!(e instanceof RedactionCheckError)) throw e;
+        console.error(`${input}: redaction check failed, old text still on page ${e.pages.join(', ')}; not written`);
+        return false;
+    }
+
+    const outPath = outputPathFor(input, options.outDir);
+    await mkdir(path.dirname(outPath), { recursive: true });
+    await writeFile(outPath, output);
+    console.log(`${input}: ${matches.length} replacement${matches.length === 1 ? '' : 's'} -> ${outPath}`);
+    return true;
+}
+
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions | null;
+    try {
+        options = parseOptions(argv);
+        if (options) {
+            await loadFont(options);
+            await loadImage(options);
+        }
+    } catch (e) {
+        console.error(`${e instanceof Error ? e.message : e}\n\n${USAGE}`);
+        return 2;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const files = await fg(options.inputs, { onlyFiles: true, unique: true, caseSensitiveMatch: false });
+    if (files.length === 0) {
+        console.error('No input files matched.');
+        return 1;
+    }
+
+    let failures = 0;
+    for (const file of files.sort()) {
+        try {
+            if (!await processFile(file, options)) failures++;
+        } catch (e) {
+            console.error(`${file}: ${e instanceof Error ? e.message : e}`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) console.error(`${failures} of ${files.length} file${files.length === 1 ? '' : 's'} failed.`);
+    return failures > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,20 @@
+import { createRequire } from 'node:module';
+
+/**
+ * Stands in for `pdfjs-dist` in the CLI build (see vite.cli.config.ts).
+ *
+ * pdf.js ships CommonJS only, and Node's ESM loader can't see its named
+ * exports, so it is loaded with `require`. Its worker code is put on
+ * `globalThis.pdfjsWorker`, where pdf.js picks it up and runs it on the main
+ * thread instead of spawning a worker.
+ */
+const require = createRequire(import.meta.url);
+const pdfjs: typeof import('pdfjs-dist') = require('pdfjs-dist/legacy/build/pdf.js');
+
+(globalThis as typeof globalThis & { pdfjsWorker: unknown }).pdfjsWorker = require('pdfjs-dist/legacy/build/pdf.worker.js');
+
+export const { GlobalWorkerOptions, version } = pdfjs;
+
+// A batch run would otherwise print pdf.js font fallback warnings for every file.
+export const getDocument: typeof pdfjs.getDocument = params =>
+    pdfjs.getDocument({ verbosity: pdfjs.VerbosityLevel.ERRORS, ...(params as object) });
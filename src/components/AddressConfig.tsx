@@ -1,8 +1,33 @@
-import { useState, useEffect } from 'react';
-import { FileText, Search, Download, RefreshCw, CheckCircle, AlertCircle, Eye, EyeOff, MousePointer2, Save, Trash2, Layers, Move } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { FileText, Search, Download, RefreshCw, CheckCircle, AlertCircle, Eye, EyeOff, MousePointer2, Save, Layers, Move, ShieldCheck } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { findMatches, replaceAddress, getPdfText, shiftPageContent, type Match } from '../lib/pdf-utils';
-import { PdfPreview } from './PdfPreview';
+import { addOffsets, alignPages, isIdentityTransform, isZeroOffset, NO_OFFSET, type PageContent, type PageOffset } from '../lib/layout';
+import { getPdfText, snapToText, type Match } from '../lib/pdf-utils';
+import { InvalidPatternError } from '../lib/text-match';
+import { InvalidPageSelectorError, parsePageSelector, resolvePages } from '../lib/page-selector';
+import type { ReplaceRule, SavedConfig } from '../lib/config';
+import { InvalidFontError, MissingCharactersError, missingCharacters } from '../lib/custom-font';
+import { FieldValueTooLongError } from '../lib/form-text';
+import { applyChanges, countPages, expandRegions, matchRules, RedactionCheckError, searchOf } from '../lib/pipeline';
+import { measurePages } from '../auto-align';
+import { createBackgroundSampler } from '../background';
+import { createOcrEngine } from '../ocr';
+import { useAddressSettings } from '../address-settings';
+import { loadSavedConfig, storeSavedConfig } from '../config-storage';
+import { downloadBytes } from '../download';
+import { AutoAlignControls } from './AutoAlignControls';
+import { CoverControls } from './CoverControls';
+import { FontPicker } from './FontPicker';
+import { GraphicPicker } from './GraphicPicker';
+import { MatchReview } from './MatchReview';
+import { PageSelectorInput } from './PageSelectorInput';
+import { PdfPreview, type PageSelection } from './PdfPreview';
+import { ProfilePicker } from './ProfilePicker';
+import { RegionList } from './RegionList';
+import { RuleList } from './RuleList';
+import { ShiftControls } from './ShiftControls';
+import { TextLayoutControls } from './TextLayoutControls';
+import { TransformControls } from './TransformControls';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -15,79 +40,199 @@ interface AddressConfigProps {
     onReset: () => void;
 }
 
-const STORAGE_KEY = 'pdf-fixer-config';
-
-interface SavedConfig {
-    mode: 'auto' | 'manual' | 'layout';
-    searchText: string;
-    newAddress: string;
-    manualSelection: Match | null;
-    pageShift?: { x: number, y: number };
-}
-
 export function AddressConfig({ file, onReset }: AddressConfigProps) {
-    const [mode, setMode] = useState<'auto' | 'manual' | 'layout'>('auto');
+    const {
+        mode, setMode,
+        rules, setRules,
+        newAddress, setNewAddress,
+        manualRegions, setManualRegions,
+        snapToText: snap, setSnapToText: setSnap,
+        applyToAll, setApplyToAll,
+        pages, setPages,
+        pageShift, setPageShift,
+        pageShifts, setPageShifts,
+        autoAlign, setAutoAlign,
+        transform, setTransform,
+        redact, setRedact,
+        font, setFont,
+        customFont, setCustomFont,
+        textLayout, setTextLayout,
+        cover, setCover,
+        graphic, setGraphic,
+        applyConfig: applySettings,
+        currentConfig
+    } = useAddressSettings();
 
     // Auto Search State
-    const [searchText, setSearchText] = useState('');
+    const [ruleCounts, setRuleCounts] = useState<number[] | null>(null);
     const [matches, setMatches] = useState<Match[]>([]);
+    // Indices into `matches` the user has chosen not to replace.
+    const [rejected, setRejected] = useState<Set<number>>(new Set());
+    const [activeMatch, setActiveMatch] = useState<number | null>(null);
 
     // Manual State
-    const [manualSelection, setManualSelection] = useState<Match | null>(null);
+    // Text items the last snapped region captured, outlined in the preview.
+    const [snappedItems, setSnappedItems] = useState<Match[]>([]);
     const [numPages, setNumPages] = useState(0);
-    const [applyToAll, setApplyToAll] = useState(false);
-    const [pageShift, setPageShift] = useState({ x: 0, y: 0 });
+
+    // Layout State
+    // What auto-align found on each page of the file.
+    const [measured, setMeasured] = useState<PageContent[] | null>(null);
+    const [aligning, setAligning] = useState(false);
+    const [alignError, setAlignError] = useState<string | null>(null);
+    // What the last layout change could not carry over exactly.
+    const [layoutWarnings, setLayoutWarnings] = useState<string[]>([]);
+    const [fitWarnings, setFitWarnings] = useState<string[]>([]);
+    const [layoutPage, setLayoutPage] = useState(1);
 
     // Common State
-    const [newAddress, setNewAddress] = useState('123 New Address St,\nNew City, State 12345');
     const [status, setStatus] = useState<'idle' | 'searching' | 'found' | 'processing' | 'done' | 'error'>('idle');
     const [statusMsg, setStatusMsg] = useState('');
+    // The page OCR is reading, while a search waits for it.
+    const [ocrPage, setOcrPage] = useState<number | null>(null);
 
     // Debug state
     const [showDebug, setShowDebug] = useState(false);
     const [debugText, setDebugText] = useState('');
     const [loadingDebug, setLoadingDebug] = useState(false);
 
-    // Persistence state
-    const [hasLoadedConfig, setHasLoadedConfig] = useState(false);
+    // Persistence state: bumped on every load so the manual preview can jump to the loaded regions.
+    const [configLoads, setConfigLoads] = useState(0);
+
+    // Replaces every setting and drops what was found with the old ones.
+    const applyConfig = (saved: SavedConfig) => {
+        applySettings(saved);
+        setRuleCounts(null);
+        setMatches([]);
+        setRejected(new Set());
+        setActiveMatch(null);
+        setSnappedItems([]);
+        setStatus('idle');
+        setConfigLoads(n => n + 1);
+    };
 
-    // Load config on mount
+    // Load the active profile on mount
     useEffect(() => {
+        const config = loadSavedConfig();
+        if (config) applyConfig(config);
+    }, []);
+
+    // Reads pages without a text layer; it keeps what it read for as long as the file is open.
+    const ocr = useMemo(() => createOcrEngine(setOcrPage), [file]);
+    useEffect(() => () => { ocr.terminate(); }, [ocr]);
+    // Likewise the page colours sampled for covers, so previews don't render pages again.
+    const background = useMemo(() => createBackgroundSampler(), [file]);
+
+    const enabledRules = rules.filter(rule => rule.enabled && rule.find.trim());
+    // Everything that may be drawn as new text, for the font check.
+    const replacementTexts = mode === 'auto'
+        ? enabledRules.map(rule => rule.replace)
+        : [newAddress, ...manualRegions.flatMap(region => region.replacement ?? [])];
+
+    // Checked against the page count once a preview or search has reported it.
+    const pageError = useMemo(() => {
         try {
-            const saved = localStorage.getItem(STORAGE_KEY);
-            if (saved) {
-                const config: SavedConfig = JSON.parse(saved);
-                if (config.newAddress) setNewAddress(config.newAddress);
-                if (config.searchText) setSearchText(config.searchText);
-                if (config.manualSelection) setManualSelection(config.manualSelection);
-                if (config.pageShift) setPageShift(config.pageShift);
-                if (config.mode) setMode(config.mode);
-                setHasLoadedConfig(true);
-            }
+            if (numPages > 0) resolvePages(pages, numPages);
+            else if (pages.trim()) parsePageSelector(pages);
+            return null;
         } catch (e) {
-            console.error("Failed to load config", e);
+            return e instanceof InvalidPageSelectorError ? e.message : String(e);
         }
-    }, []);
+    }, [pages, numPages]);
+
+    // What handleProcess will replace, also shown by the previews.
+    const matchesToUse = useMemo(() => {
+        if (mode === 'auto') return matches.filter((_, i) => !rejected.has(i));
+        if (mode === 'manual') {
+            return applyToAll && numPages > 0 && !pageError
+                ? expandRegions(manualRegions, numPages, resolvePages(pages, numPages))
+                : manualRegions;
+        }
+        return [];
+    }, [mode, matches, rejected, manualRegions, applyToAll, numPages, pages, pageError]);
 
-    const saveConfig = () => {
-        const config: SavedConfig = {
-            mode,
-            searchText,
-            newAddress,
-            manualSelection,
-            pageShift
-        };
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    // Measuring renders every page, so it happens once per file; the shifts
+    // follow the options and transform from the measurements.
+    const autoAlignOn = autoAlign !== null;
+    useEffect(() => {
+        setMeasured(null);
+        setAlignError(null);
+        if (!autoAlignOn) return;
+        let mounted = true;
+        setAligning(true);
+        file.arrayBuffer()
+            .then(buffer => measurePages(new Uint8Array(buffer)))
+            .then(
+                pages => { if (mounted) setMeasured(pages); },
+                err => {
+                    console.error("Error aligning pages:", err);
+                    if (mounted) setAlignError(err instanceof Error ? err.message : "Could not find the page content.");
+                },
+            )
+            .finally(() => { if (mounted) setAligning(false); });
+        return () => { mounted = false; };
+    }, [file, autoAlignOn]);
+
+    const alignedShifts = useMemo(
+        () => autoAlign && measured ? alignPages(measured, autoAlign, transform) : [],
+        [measured, autoAlign, transform],
+    );
+
+    // Each page's shift on top of `pageShift`: auto-align's, then the user's.
+    const perPageShifts = useMemo(() => {
+        const count = Math.max(alignedShifts.length, pageShifts.length);
+        return Array.from({ length: count }, (_, i) => addOffsets(alignedShifts[i], pageShifts[i]));
+    }, [alignedShifts, pageShifts]);
+
+    const setLayoutPageShift = (offset: PageOffset) => {
+        const next = [...pageShifts];
+        while (next.length < layoutPage) next.push(null);
+        next[layoutPage - 1] = isZeroOffset(offset) ? null : offset;
+        setPageShifts(next);
+    };
+
+    const generateOutput = useCallback(async () => {
+        setLayoutWarnings([]);
+        setFitWarnings([]);
+        return applyChanges(new Uint8Array(await file.arrayBuffer()), matchesToUse, {
+            newText: newAddress,
+            redact,
+            font,
+            customFont,
+            layout: textLayout,
+            onFitWarnings: setFitWarnings,
+            cover,
+            background,
+            graphic,
+            shift: pageShift,
+            pageShifts: perPageShifts,
+            transform,
+            onLayoutWarnings: setLayoutWarnings,
+            searches: mode === 'auto' ? rules.filter(rule => rule.enabled && rule.find.trim()).map(searchOf) : undefined,
+        });
+    }, [file, matchesToUse, newAddress, redact, font, customFont, textLayout, cover, background, graphic, pageShift, perPageShifts, transform, mode, rules]);
+
+    // Counts and matches belong to the rules and pages they were found with.
+    const clearSearch = () => {
+        setRuleCounts(null);
+        setMatches([]);
+        setRejected(new Set());
+        setActiveMatch(null);
+        if (status === 'found' && mode === 'auto') setStatus('idle');
     };
 
-    const clearConfig = () => {
-        localStorage.removeItem(STORAGE_KEY);
-        setHasLoadedConfig(false);
-        setStatusMsg("Saved settings cleared.");
+    const handleRulesChange = (next: ReplaceRule[]) => {
+        setRules(next);
+        clearSearch();
+    };
+
+    const handlePagesChange = (next: string) => {
+        setPages(next);
+        clearSearch();
     };
 
     const handleSearch = async () => {
-        if (!searchText.trim()) {
+        if (enabledRules.length === 0) {
             setStatus('error');
             setStatusMsg("Please enter text to search for.");
             return;
@@ -98,42 +243,86 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
 
         try {
             await new Promise(r => setTimeout(r, 500));
-            const results = await findMatches(file, searchText);
-            setMatches(results);
-
-            if (results.length === 0) {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const pageCount = numPages || await countPages(data);
+            setNumPages(pageCount);
+            const results = await matchRules(data, rules, pages.trim() ? resolvePages(pages, pageCount) : undefined, ocr);
+            setMatches(results.matches);
+            setRuleCounts(results.counts);
+            setRejected(new Set());
+            setActiveMatch(results.matches.length > 0 ? 0 : null);
+
+            if (results.matches.length === 0) {
                 setStatusMsg("No matches found.");
                 setStatus('error'); // Soft error
             } else {
                 setStatus('found');
-                setStatusMsg(`Found ${results.length} occurrence${results.length === 1 ? '' : 's'}.`);
+                const matched = results.counts.filter(count => count > 0).length;
+                setStatusMsg(`Found ${results.matches.length} occurrence${results.matches.length === 1 ? '' : 's'} for ${matched} of ${enabledRules.length} rule${enabledRules.length === 1 ? '' : 's'}.`);
             }
         } catch (e) {
             console.error(e);
             setStatus('error');
-            setStatusMsg("Error reading PDF.");
+            setStatusMsg(e instanceof InvalidPatternError || e instanceof InvalidPageSelectorError ? e.message : "Error reading PDF.");
+        } finally {
+            setOcrPage(null);
         }
     };
 
-    const handleManualSelection = (rect: { x: number; y: number; width: number; height: number; pageIndex: number; viewportHeight: number } | null) => {
-        if (!rect) {
-            setManualSelection(null);
-            setStatus('idle');
-            return;
+    /**
+     * Fits a region to the text under it when snapping is on. Returns null when
+     * there is no text there, or snapping is off.
+     */
+    const snapRegion = async (region: Match): Promise<Match | null> => {
+        if (!snap) return null;
+        try {
+            const snapped = await snapToText(new Uint8Array(await file.arrayBuffer()), region);
+            if (!snapped) return null;
+            setSnappedItems(snapped.items.map(item => ({ pageIndex: region.pageIndex, ...item.box, text: item.text })));
+            return region.replacement !== undefined ? { ...snapped.match, replacement: region.replacement } : snapped.match;
+        } catch (e) {
+            console.error(e);
+            return null;
         }
+    };
 
-        const y_pdf = rect.viewportHeight - rect.y - rect.height;
+    const handleManualSelection = async (selection: PageSelection | null) => {
+        if (!selection) return;
 
-        setManualSelection({
-            pageIndex: rect.pageIndex,
-            x: rect.x,
-            y: y_pdf,
-            width: rect.width,
-            height: rect.height,
+        const { rotation, ...rect } = selection;
+        const drawn: Match = {
+            ...rect,
+            // New text should read upright on a rotated page.
+            ...(rotation !== 0 ? { rotation } : {}),
             text: 'Manual Selection'
-        });
+        };
+        setSnappedItems([]);
+        const snapped = await snapRegion(drawn);
+        // Drawing may have continued while the text was read.
+        setManualRegions(regions => [...regions, snapped ?? drawn]);
         setStatus('found');
-        setStatusMsg("Region selected.");
+        setStatusMsg(snap && !snapped ? "No text under the box; it was kept as drawn." : "Region added.");
+    };
+
+    const handleRegionsChange = (next: Match[]) => {
+        setManualRegions(next);
+        setSnappedItems([]);
+        setStatus(next.length > 0 ? 'found' : 'idle');
+    };
+
+    // A moved or resized region no longer holds the text it was snapped to, so
+    // it is snapped again, or otherwise becomes a plain box.
+    const handleRegionEdit = async (next: Match[]) => {
+        const index = next.length === manualRegions.length ? next.findIndex((region, i) => region !== manualRegions[i]) : -1;
+        if (index === -1) {
+            handleRegionsChange(next);
+            return;
+        }
+        const { style: _, ...rest } = next[index];
+        const plain: Match = { ...rest, text: 'Manual Selection' };
+        handleRegionsChange(next.map((region, i) => i === index ? plain : region));
+        const snapped = await snapRegion(plain);
+        if (snapped) setManualRegions(regions => regions.map(region => region === plain ? snapped : region));
     };
 
     const handleProcess = async () => {
@@ -141,52 +330,33 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
         setStatusMsg("Applying changes...");
 
         try {
-            saveConfig();
-            setHasLoadedConfig(true);
-
-            await new Promise(r => setTimeout(r, 1000));
-
-            let matchesToUse: Match[] = [];
-            if (mode === 'auto') {
-                matchesToUse = matches;
-            } else if (manualSelection) {
-                if (applyToAll && numPages > 0) {
-                    for (let i = 0; i < numPages; i++) {
-                        matchesToUse.push({ ...manualSelection, pageIndex: i });
-                    }
-                } else {
-                    matchesToUse = [manualSelection];
+            if (mode !== 'layout' && !graphic && font !== 'auto') {
+                const missing = await missingCharacters(replacementTexts, font, customFont);
+                if (missing.length > 0) {
+                    setStatus('error');
+                    setStatusMsg(`The chosen font can't draw ${missing.join(' ')}. Pick a font file that has them.`);
+                    return;
                 }
             }
 
-            // 1. Replace Address (if any)
-            let currentBlob: Blob = file;
-            if (matchesToUse.length > 0) {
-                currentBlob = await replaceAddress(new File([file], "tmp.pdf"), matchesToUse, newAddress);
-            } else if (mode === 'layout' && matchesToUse.length === 0) {
-                currentBlob = file;
-            }
+            const saved = storeSavedConfig(currentConfig());
 
-            // 2. Shift Content
-            if (pageShift.x !== 0 || pageShift.y !== 0) {
-                currentBlob = await shiftPageContent(currentBlob, pageShift.x, -pageShift.y);
-            }
+            await new Promise(r => setTimeout(r, 1000));
 
-            const url = URL.createObjectURL(currentBlob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `updated_${file.name}`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            if (redact && matchesToUse.length > 0) setStatusMsg("Applying changes and verifying redaction...");
+            const output = await generateOutput();
+            downloadBytes(output, `updated_${file.name}`);
 
             setStatus('done');
-            setStatusMsg("Success! File downloaded & settings saved.");
+            setStatusMsg(saved
+                ? "Success! File downloaded & settings saved."
+                : "File downloaded, but the settings were too large to save in this browser.");
         } catch (e) {
             console.error(e);
             setStatus('error');
-            setStatusMsg("Failed to generate PDF.");
+            setStatusMsg(e instanceof RedactionCheckError || e instanceof FieldValueTooLongError || e instanceof MissingCharactersError || e instanceof InvalidFontError
+                ? `${e.message} Nothing was downloaded.`
+                : "Failed to generate PDF.");
         }
     };
 
@@ -198,7 +368,7 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
 
         setLoadingDebug(true);
         try {
-            const text = await getPdfText(file);
+            const text = await getPdfText(new Uint8Array(await file.arrayBuffer()), ocr);
             setDebugText(text);
             setShowDebug(true);
         } catch (e) {
@@ -207,13 +377,16 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
             setShowDebug(true); // show error
         } finally {
             setLoadingDebug(false);
+            setOcrPage(null);
         }
     }
 
+    const hasLayoutChanges = !isZeroOffset(pageShift) || autoAlign !== null || pageShifts.some(o => !isZeroOffset(o)) || !isIdentityTransform(transform);
+
     const canProcess = status !== 'processing' &&
-        ((mode === 'auto' && matches.length > 0) ||
-            (mode === 'manual' && manualSelection !== null) ||
-            (mode === 'layout' && (pageShift.x !== 0 || pageShift.y !== 0)));
+        ((mode === 'auto' && matches.length > rejected.size) ||
+            (mode === 'manual' && manualRegions.length > 0 && !(applyToAll && pageError)) ||
+            (mode === 'layout' && hasLayoutChanges && !aligning && !alignError));
 
     return (
         <div className="w-full max-w-4xl mx-auto mt-10 pb-20">
@@ -246,17 +419,7 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                 </div>
             </div>
 
-            {hasLoadedConfig && (
-                <div className="mb-6 flex items-center justify-between bg-blue-50 px-4 py-3 rounded-xl border border-blue-100 text-blue-700 text-sm">
-                    <div className="flex items-center gap-2">
-                        <CheckCircle className="w-4 h-4" />
-                        <span>Loaded saved settings from previous use.</span>
-                    </div>
-                    <button onClick={clearConfig} className="text-blue-500 hover:text-blue-700 hover:underline flex items-center gap-1">
-                        <Trash2 className="w-3 h-3" /> Clear defaults
-                    </button>
-                </div>
-            )}
+            <ProfilePicker currentConfig={currentConfig} onLoad={applyConfig} disabled={status === 'searching' || status === 'processing'} />
 
             {showDebug && (
                 <motion.div
@@ -270,7 +433,7 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                             Raw PDF Text Content
                         </h3>
                         <p className="mb-4 text-xs text-slate-400">
-                            This is exactly what the tool sees. If your text isn't here, it might be an image or encoded strangely.
+                            This is exactly what the tool sees. Pages without a text layer are read with OCR, and each page's heading says where its text came from.
                             Copy the text from here to search for it.
                         </p>
                         <textarea
@@ -321,22 +484,26 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                     {mode === 'auto' ? (
                         <div className="space-y-4">
                             <p className="text-sm text-slate-500">
-                                Enter a unique line of text from the address you want to change.
+                                Add a rule for each piece of text to change, e.g. the street, the phone number and the postcode.
+                                Rules are applied in order, all in one pass.
                             </p>
-                            <div className="relative">
-                                <Search className="absolute left-3 top-3 w-5 h-5 text-slate-400" />
-                                <input
-                                    type="text"
-                                    value={searchText}
-                                    onChange={(e) => setSearchText(e.target.value)}
-                                    placeholder="e.g. 123 Main Street"
-                                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none"
-                                />
-                            </div>
+                            <RuleList
+                                rules={rules}
+                                onChange={handleRulesChange}
+                                counts={ruleCounts}
+                                disabled={status === 'searching' || status === 'processing'}
+                            />
+                            <PageSelectorInput
+                                label="Only on pages"
+                                value={pages}
+                                onChange={handlePagesChange}
+                                error={pageError}
+                                disabled={status === 'searching' || status === 'processing'}
+                            />
 
                             <button
                                 onClick={handleSearch}
-                                disabled={status === 'searching' || !searchText}
+                                disabled={status === 'searching' || enabledRules.length === 0 || pageError !== null}
                                 className={cn(
                                     "w-full py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2",
                                     status === 'searching'
@@ -346,26 +513,62 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                             >
                                 {status === 'searching' ? (<RefreshCw className="w-4 h-4 animate-spin" />) : "Find Matches"}
                             </button>
+
+                            {matches.length > 0 && (
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                    <MatchReview
+                                        file={file}
+                                        matches={matches}
+                                        rejected={rejected}
+                                        onRejectedChange={setRejected}
+                                        activeIndex={activeMatch}
+                                        onActivate={setActiveMatch}
+                                    />
+                                    <PdfPreview
+                                        file={file}
+                                        onSelectionChange={() => { }}
+                                        page={activeMatch !== null ? matches[activeMatch].pageIndex + 1 : undefined}
+                                        overlays={matchesToUse}
+                                        highlight={activeMatch !== null ? matches[activeMatch] : null}
+                                        renderResult={generateOutput}
+                                    />
+                                </div>
+                            )}
                         </div>
                     ) : mode === 'manual' ? (
                         <div className="space-y-4">
                             <p className="text-sm text-slate-500 mb-4">
                                 Draw a box around the address you want to replace.
                             </p>
+                            <label className="flex items-center gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={snap}
+                                    onChange={(e) => setSnap(e.target.checked)}
+                                    className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                                />
+                                <span>Snap boxes to the text under them</span>
+                            </label>
                             <PdfPreview
-                                key={hasLoadedConfig ? `loaded-${manualSelection?.pageIndex}` : 'loading'}
+                                key={configLoads}
                                 file={file}
                                 onSelectionChange={handleManualSelection}
-                                initialPage={manualSelection ? manualSelection.pageIndex + 1 : 1}
+                                initialPage={manualRegions.length > 0 ? manualRegions[0].pageIndex + 1 : 1}
+                                overlays={[...(applyToAll ? matchesToUse : []), ...snappedItems]}
+                                regions={manualRegions}
+                                onRegionsChange={handleRegionEdit}
+                                renderResult={manualRegions.length > 0 ? generateOutput : undefined}
                                 onLoadSuccess={setNumPages}
                             />
-                            {manualSelection && (
+                            {manualRegions.length > 0 && (
                                 <div className="flex flex-col gap-2">
                                     <div className="text-xs text-green-600 font-bold flex items-center gap-1">
                                         <CheckCircle className="w-3 h-3" />
-                                        Selection active: {Math.round(manualSelection.width)}x{Math.round(manualSelection.height)} coords.
+                                        {manualRegions.length} region{manualRegions.length === 1 ? '' : 's'} selected. Drag a region to move it, or its corner to resize it.
                                     </div>
 
+                                    <RegionList regions={manualRegions} onChange={handleRegionsChange} />
+
                                     <label className="flex items-center gap-2 p-3 bg-indigo-50 border border-indigo-100 rounded-lg cursor-pointer hover:bg-indigo-100 transition-colors">
                                         <input
                                             type="checkbox"
@@ -375,76 +578,76 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                                         />
                                         <div className="flex items-center gap-2 text-sm font-semibold text-indigo-900">
                                             <Layers className="w-4 h-4" />
-                                            <span>Apply to all {numPages > 0 ? numPages : ''} pages</span>
+                                            <span>Repeat every region on other pages</span>
                                         </div>
                                     </label>
+                                    {applyToAll && (
+                                        <PageSelectorInput
+                                            label={`Repeat on pages${numPages > 0 ? ` (of ${numPages})` : ''}`}
+                                            value={pages}
+                                            onChange={setPages}
+                                            error={pageError}
+                                        />
+                                    )}
                                 </div>
                             )}
                         </div>
                     ) : (
                         <div className="space-y-6">
                             <p className="text-sm text-slate-500">
-                                Shift the entire page content to fix uneven scanner margins.
+                                Straighten, crop, rotate or resize scanned pages, and shift their content to fix uneven margins, for every page or one page at a time.
                             </p>
 
+                            <AutoAlignControls value={autoAlign} onChange={setAutoAlign} />
+                            {aligning && (
+                                <div className="text-sm text-slate-500 flex items-center gap-2">
+                                    <RefreshCw className="w-4 h-4 animate-spin" /> Finding the content on each page...
+                                </div>
+                            )}
+                            {alignError && (
+                                <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 flex items-center gap-2">
+                                    <AlertCircle className="w-4 h-4 shrink-0" /> Could not auto-align: {alignError}
+                                </div>
+                            )}
+
                             <div className="border rounded-xl overflow-hidden shadow-sm">
                                 <PdfPreview
                                     file={file}
                                     onSelectionChange={() => { }}
-                                    initialPage={1}
-                                    pageShift={pageShift}
+                                    initialPage={layoutPage}
+                                    onPageChange={setLayoutPage}
+                                    onLoadSuccess={setNumPages}
+                                    layout={{ transform, shift: addOffsets(pageShift, perPageShifts[layoutPage - 1]) }}
+                                    renderResult={aligning ? undefined : generateOutput}
                                 />
                             </div>
 
-                            {/* X Axis */}
-                            <div className="space-y-2">
-                                <div className="flex justify-between text-sm font-medium text-slate-700">
-                                    <span>Horizontal Shift</span>
-                                    <span className={clsx(pageShift.x !== 0 ? "text-blue-600" : "text-slate-400")}>{pageShift.x > 0 ? '+' : ''}{pageShift.x} px</span>
-                                </div>
-                                <input
-                                    type="range"
-                                    min="-100"
-                                    max="100"
-                                    value={pageShift.x}
-                                    onChange={(e) => setPageShift(p => ({ ...p, x: parseInt(e.target.value) }))}
-                                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                                />
-                                <div className="flex justify-between text-xs text-slate-400">
-                                    <span>Move Left</span>
-                                    <span>Move Right</span>
-                                </div>
-                            </div>
+                            <TransformControls value={transform} onChange={setTransform} />
 
-                            {/* Y Axis */}
-                            <div className="space-y-2">
-                                <div className="flex justify-between text-sm font-medium text-slate-700">
-                                    <span>Vertical Shift</span>
-                                    <span className={clsx(pageShift.y !== 0 ? "text-blue-600" : "text-slate-400")}>{pageShift.y > 0 ? '+' : ''}{pageShift.y} px</span>
-                                </div>
-                                <input
-                                    type="range"
-                                    min="-100"
-                                    max="100"
-                                    value={pageShift.y}
-                                    onChange={(e) => setPageShift(p => ({ ...p, y: parseInt(e.target.value) }))}
-                                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                                />
-                                <div className="flex justify-between text-xs text-slate-400">
-                                    <span>Move Up</span>
-                                    <span>Move Down</span>
-                                </div>
-                            </div>
+                            <ShiftControls label="All pages" value={pageShift} onChange={setPageShift} />
+
+                            <ShiftControls
+                                label={`Page ${layoutPage} only`}
+                                value={pageShifts[layoutPage - 1] ?? NO_OFFSET}
+                                onChange={setLayoutPageShift}
+                            />
+                            {autoAlign && !aligning && alignedShifts.length > 0 && (
+                                <p className="text-xs text-slate-500">
+                                    {alignedShifts[layoutPage - 1]
+                                        ? `Auto-align moves page ${layoutPage} by ${alignedShifts[layoutPage - 1]!.x} pt across and ${alignedShifts[layoutPage - 1]!.y} pt down.`
+                                        : `Page ${layoutPage} looks blank, so auto-align leaves it alone.`}
+                                </p>
+                            )}
 
                             <div className="flex items-center justify-center p-4 bg-slate-50 rounded-xl border border-dashed border-slate-200 text-xs text-slate-500">
-                                Tip: Positive X moves Right. Positive Y moves Down (on screen).
+                                Tip: Positive X moves Right. Positive Y moves Down (on screen). Shifts are in points (1/72 inch).
                             </div>
 
                             <button
-                                onClick={() => setPageShift({ x: 0, y: 0 })}
+                                onClick={() => { setPageShift(NO_OFFSET); setPageShifts([]); }}
                                 className="text-sm text-slate-400 hover:text-slate-600 underline text-center w-full block"
                             >
-                                Reset Position
+                                Reset All Pages
                             </button>
                         </div>
                     )}
@@ -457,23 +660,66 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                     layout
                     className={cn(
                         "bg-white p-6 rounded-3xl shadow-lg border border-slate-100 transition-all duration-500",
-                        ((mode === 'auto' && matches.length > 0) || (mode === 'manual' && manualSelection) || (mode === 'layout' && (pageShift.x !== 0 || pageShift.y !== 0)))
+                        ((mode === 'auto' && matches.length > 0) || (mode === 'manual' && manualRegions.length > 0) || (mode === 'layout' && hasLayoutChanges))
                             ? "opacity-100 translate-y-0"
                             : "opacity-50 translate-y-4 pointer-events-none grayscale"
                     )}
                 >
                     <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2 mb-4">
                         <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 text-blue-600 text-xs font-bold">2</span>
-                        Define New Address
+                        {mode === 'auto' ? 'Replace' : 'Define New Address'}
                     </h3>
 
                     <div className="space-y-4">
-                        <textarea
+                        {mode === 'auto' && !graphic && (
+                            <p className="text-sm text-slate-500">
+                                Each rule's replacement text is set above.
+                            </p>
+                        )}
+                        {mode !== 'layout' && <GraphicPicker value={graphic} onChange={setGraphic} />}
+
+                        {mode !== 'auto' && !(mode === 'manual' && graphic) && <textarea
                             value={newAddress}
                             onChange={(e) => setNewAddress(e.target.value)}
                             rows={4}
                             className="w-full p-4 rounded-xl border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none resize-none font-sans"
-                        />
+                        />}
+
+                        {mode !== 'layout' && !graphic && (
+                            <FontPicker
+                                value={font}
+                                customFont={customFont}
+                                onChange={(nextFont, nextCustomFont) => {
+                                    setFont(nextFont);
+                                    setCustomFont(nextCustomFont);
+                                }}
+                                texts={replacementTexts}
+                            />
+                        )}
+
+                        {mode !== 'layout' && !graphic && <TextLayoutControls value={textLayout} onChange={setTextLayout} />}
+
+                        {mode !== 'layout' && <CoverControls value={cover} onChange={setCover} />}
+
+                        {mode !== 'layout' && (
+                            <label className="flex items-start gap-2 p-3 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-100 transition-colors">
+                                <input
+                                    type="checkbox"
+                                    checked={redact}
+                                    onChange={(e) => setRedact(e.target.checked)}
+                                    className="mt-0.5 w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                                />
+                                <div className="text-sm">
+                                    <div className="flex items-center gap-2 font-semibold text-slate-800">
+                                        <ShieldCheck className="w-4 h-4" />
+                                        <span>True redaction</span>
+                                    </div>
+                                    <p className="text-xs text-slate-500">
+                                        Remove the old text from the PDF itself, not just cover it, and verify it is gone.
+                                    </p>
+                                </div>
+                            </label>
+                        )}
 
                         <button
                             onClick={handleProcess}
@@ -530,9 +776,26 @@ export function AddressConfig({ file, onReset }: AddressConfigProps) {
                         )}
                         <p className="text-slate-500 mt-2">
                             {status === 'idle' && "Start by searching or selecting a region."}
+                            {status === 'searching' && ocrPage !== null && `Reading page ${ocrPage} with OCR...`}
                             {status === 'found' && "Region active. Ready to replace."}
                             {status === 'done' && "File downloaded!"}
                         </p>
+                        {fitWarnings.length > 0 && (
+                            <div className="mt-4 p-3 rounded-lg bg-amber-50 text-amber-800 text-sm text-left space-y-1">
+                                <p className="font-semibold">New text that doesn't fit:</p>
+                                <ul className="list-disc pl-5 space-y-1">
+                                    {fitWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {layoutWarnings.length > 0 && (
+                            <div className="mt-4 p-3 rounded-lg bg-amber-50 text-amber-800 text-sm text-left space-y-1">
+                                <p className="font-semibold">Not carried over exactly:</p>
+                                <ul className="list-disc pl-5 space-y-1">
+                                    {layoutWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                </ul>
+                            </div>
+                        )}
                     </div>
                 </motion.div>
             </div>
@@ -0,0 +1,60 @@
+import { DEFAULT_AUTO_ALIGN, type AutoAlignOptions } from '../lib/layout';
+
+interface AutoAlignControlsProps {
+    /** Null when auto-align is off. */
+    value: AutoAlignOptions | null;
+    onChange: (value: AutoAlignOptions | null) => void;
+    disabled?: boolean;
+}
+
+/** Turns auto-align on or off and picks where each page's content goes. */
+export function AutoAlignControls({ value, onChange, disabled }: AutoAlignControlsProps) {
+    const margin = (key: 'left' | 'top', n: number) => {
+        if (value && Number.isFinite(n)) onChange({ ...value, [key]: n });
+    };
+
+    return (
+        <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-200">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={value !== null}
+                    onChange={(e) => onChange(e.target.checked ? DEFAULT_AUTO_ALIGN : null)}
+                    disabled={disabled}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                Auto-align each page's content
+            </label>
+            {value && (
+                <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+                    <select
+                        value={value.mode}
+                        onChange={(e) => onChange({ ...value, mode: e.target.value as AutoAlignOptions['mode'] })}
+                        disabled={disabled}
+                        className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white focus:border-blue-500 outline-none"
+                    >
+                        <option value="center">Centre on the page</option>
+                        <option value="margin">Align to margins</option>
+                    </select>
+                    {value.mode === 'margin' && (['left', 'top'] as const).map(key => (
+                        <label key={key} className="flex items-center gap-1">
+                            {key === 'left' ? 'Left' : 'Top'}
+                            <input
+                                type="number"
+                                min="0"
+                                value={value[key]}
+                                onChange={(e) => margin(key, parseFloat(e.target.value))}
+                                disabled={disabled}
+                                className="w-20 px-2 py-1 rounded border border-slate-200 text-right focus:border-blue-500 outline-none"
+                            />
+                            pt
+                        </label>
+                    ))}
+                </div>
+            )}
+            <p className="text-xs text-slate-500">
+                Finds the content on every page from its text and rendered ink. The shifts below are added on top.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,465 @@
+import { useState, useEffect } from 'react';
+import { Files, Search, Download, RefreshCw, CheckCircle, AlertCircle, MousePointer2, Move, ShieldCheck, Clock, MinusCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { zipSync } from 'fflate';
+import type { ReplaceRule, SavedConfig } from '../lib/config';
+import { InvalidFontError, missingCharacters } from '../lib/custom-font';
+import { addOffsets, isIdentityTransform, isZeroOffset } from '../lib/layout';
+import { applyChanges, countPages, matchesForConfig, matchRules, searchOf } from '../lib/pipeline';
+import { InvalidPatternError } from '../lib/text-match';
+import { InvalidPageSelectorError, parsePageSelector, resolvePages } from '../lib/page-selector';
+import { autoAlignOffsets } from '../auto-align';
+import { createBackgroundSampler } from '../background';
+import { createOcrEngine } from '../ocr';
+import { useAddressSettings } from '../address-settings';
+import { loadSavedConfig, storeSavedConfig } from '../config-storage';
+import { downloadBytes } from '../download';
+import { AutoAlignControls } from './AutoAlignControls';
+import { CoverControls } from './CoverControls';
+import { FontPicker } from './FontPicker';
+import { GraphicPicker } from './GraphicPicker';
+import { PageSelectorInput } from './PageSelectorInput';
+import { PdfPreview, type PageSelection } from './PdfPreview';
+import { ProfilePicker } from './ProfilePicker';
+import { RegionList } from './RegionList';
+import { RuleList } from './RuleList';
+import { ShiftControls } from './ShiftControls';
+import { TextLayoutControls } from './TextLayoutControls';
+import { TransformControls } from './TransformControls';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface BatchProcessorProps {
+    files: File[];
+    onReset: () => void;
+}
+
+type FileStatus = 'pending' | 'scanning' | 'ready' | 'no-matches' | 'processing' | 'done' | 'failed';
+
+interface QueueEntry {
+    file: File;
+    status: FileStatus;
+    matchCount: number | null;
+    message?: string;
+}
+
+/**
+ * Gives every file in the archive a distinct name, numbering repeats like a
+ * browser download would ("a.pdf", "a (2).pdf").
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+    let candidate = name;
+    const dot = name.toLowerCase().endsWith('.pdf') ? name.length - 4 : name.length;
+    for (let n = 2; taken.has(candidate); n++) {
+        candidate = `${name.slice(0, dot)} (${n})${name.slice(dot)}`;
+    }
+    taken.add(candidate);
+    return candidate;
+}
+
+export function BatchProcessor({ files, onReset }: BatchProcessorProps) {
+    // Regions are drawn on the first file only, so batches don't snap them, and
+    // per-page shifts are set up on a single file; both are kept so saving a
+    // profile from here doesn't lose them.
+    const {
+        mode, setMode,
+        rules, setRules,
+        newAddress, setNewAddress,
+        manualRegions, setManualRegions,
+        applyToAll, setApplyToAll,
+        pages, setPages,
+        pageShift, setPageShift,
+        pageShifts,
+        autoAlign, setAutoAlign,
+        transform, setTransform,
+        redact, setRedact,
+        font, setFont,
+        customFont, setCustomFont,
+        textLayout, setTextLayout,
+        cover, setCover,
+        graphic, setGraphic,
+        applyConfig: applySettings,
+        currentConfig
+    } = useAddressSettings();
+    const [ruleCounts, setRuleCounts] = useState<number[] | null>(null);
+
+    const [queue, setQueue] = useState<QueueEntry[]>(() => files.map(file => ({ file, status: 'pending', matchCount: null })));
+    const [busy, setBusy] = useState(false);
+    const [statusMsg, setStatusMsg] = useState('');
+
+    const applyConfig = (saved: SavedConfig) => {
+        applySettings(saved);
+        setRuleCounts(null);
+    };
+
+    // Batches start from the same saved settings as single files.
+    useEffect(() => {
+        const config = loadSavedConfig();
+        if (config) applyConfig(config);
+    }, []);
+
+    const updateEntry = (index: number, update: Partial<QueueEntry>) => {
+        setQueue(q => q.map((entry, i) => i === index ? { ...entry, ...update } : entry));
+    };
+
+    const handleManualSelection = (selection: PageSelection | null) => {
+        if (!selection) return;
+        const { rotation, ...rect } = selection;
+        setManualRegions([...manualRegions, {
+            ...rect,
+            ...(rotation !== 0 ? { rotation } : {}),
+            text: 'Manual Selection'
+        }]);
+    };
+
+    const enabledRules = rules.filter(rule => rule.enabled && rule.find.trim());
+    // Everything that may be drawn as new text, for the font check.
+    const replacementTexts = mode === 'auto'
+        ? enabledRules.map(rule => rule.replace)
+        : [newAddress, ...manualRegions.flatMap(region => region.replacement ?? [])];
+
+    const handleRulesChange = (next: ReplaceRule[]) => {
+        setRules(next);
+        setRuleCounts(null);
+    };
+
+    const handlePagesChange = (next: string) => {
+        setPages(next);
+        setRuleCounts(null);
+    };
+
+    // Files differ in length, so only the syntax is checked up front; page
+    // numbers a file doesn't have fail that file.
+    let pageError: string | null = null;
+    try {
+        if (pages.trim()) parsePageSelector(pages);
+    } catch (e) {
+        pageError = e instanceof InvalidPageSelectorError ? e.message : String(e);
+    }
+
+    // An OCR engine for one file of the queue, which shows the page it is reading on the file's entry.
+    const ocrFor = (i: number) => createOcrEngine(page => updateEntry(i, { message: `Reading page ${page} with OCR...` }));
+
+    const handleScan = async () => {
+        if (enabledRules.length === 0) return;
+        setBusy(true);
+        setStatusMsg("Scanning files for matches...");
+
+        try {
+            let total = 0;
+            const counts = rules.map(() => 0);
+            for (let i = 0; i < queue.length; i++) {
+                updateEntry(i, { status: 'scanning', message: undefined });
+                const ocr = ocrFor(i);
+                try {
+                    const data = new Uint8Array(await queue[i].file.arrayBuffer());
+                    const onPages = pages.trim() ? resolvePages(pages, await countPages(data)) : undefined;
+                    const { matches, counts: fileCounts } = await matchRules(data, rules, onPages, ocr);
+                    total += matches.length;
+                    fileCounts.forEach((count, j) => { counts[j] += count; });
+                    updateEntry(i, { status: matches.length > 0 ? 'ready' : 'no-matches', matchCount: matches.length, message: undefined });
+                } catch (e) {
+                    console.error(e);
+                    updateEntry(i, { status: 'failed', matchCount: null, message: e instanceof InvalidPatternError || e instanceof InvalidPageSelectorError ? e.message : "Could not read PDF." });
+                } finally {
+                    await ocr.terminate();
+                }
+            }
+
+            setRuleCounts(counts);
+            setStatusMsg(`Found ${total} occurrence${total === 1 ? '' : 's'} across ${queue.length} files.`);
+        } catch (e) {
+            console.error(e);
+            setStatusMsg("Failed to scan the files.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleProcess = async () => {
+        setBusy(true);
+        setStatusMsg("Applying changes...");
+        try {
+            if (mode !== 'layout' && !graphic && font !== 'auto') {
+                const missing = await missingCharacters(replacementTexts, font, customFont);
+                if (missing.length > 0) {
+                    setStatusMsg(`The chosen font can't draw ${missing.join(' ')}. Pick a font file that has them.`);
+                    return;
+                }
+            }
+
+            const config = currentConfig();
+            const saved = storeSavedConfig(config);
+
+            const archive: Record<string, Uint8Array> = {};
+            const taken = new Set<string>();
+            let written = 0;
+
+            for (let i = 0; i < queue.length; i++) {
+                const { file } = queue[i];
+                updateEntry(i, { status: 'processing', message: undefined });
+                const ocr = ocrFor(i);
+                try {
+                    const data = new Uint8Array(await file.arrayBuffer());
+                    const matches = await matchesForConfig(data, config, ocr);
+                    if (matches.length === 0 && mode !== 'layout') {
+                        updateEntry(i, { status: 'no-matches', matchCount: 0, message: "Skipped: nothing to replace." });
+                        continue;
+                    }
+
+                    const aligned = autoAlign ? await autoAlignOffsets(data, autoAlign, transform) : [];
+                    let warnings: string[] = [];
+                    archive[uniqueName(`updated_${file.name}`, taken)] = await applyChanges(data, matches, {
+                        newText: newAddress,
+                        redact,
+                        font,
+                        customFont,
+                        layout: textLayout,
+                        cover,
+                        background: createBackgroundSampler(),
+                        graphic,
+                        onFitWarnings: fitWarnings => { warnings = [...warnings, ...fitWarnings]; },
+                        shift: pageShift,
+                        pageShifts: Array.from({ length: Math.max(aligned.length, pageShifts.length) }, (_, p) => addOffsets(aligned[p], pageShifts[p])),
+                        transform,
+                        onLayoutWarnings: layoutWarnings => { warnings = [...warnings, ...layoutWarnings]; },
+                        searches: mode === 'auto' ? enabledRules.map(searchOf) : undefined,
+                    });
+                    written++;
+                    updateEntry(i, { status: 'done', matchCount: matches.length, message: warnings.length > 0 ? warnings.join(' ') : undefined });
+                } catch (e) {
+                    console.error(e);
+                    updateEntry(i, { status: 'failed', message: e instanceof Error ? e.message : "Failed to generate PDF." });
+                } finally {
+                    await ocr.terminate();
+                }
+            }
+
+            if (written > 0) {
+                // PDFs are already compressed internally, so the archive just stores them.
+                downloadBytes(zipSync(archive, { level: 0 }), 'updated_pdfs.zip', 'application/zip');
+                const skipped = queue.length - written;
+                setStatusMsg(`Downloaded ${written} file${written === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} skipped or failed` : ''}.`
+                    + (saved ? '' : " The settings were too large to save in this browser."));
+            } else {
+                setStatusMsg("No files could be updated. Nothing was downloaded.");
+            }
+        } catch (e) {
+            console.error(e);
+            setStatusMsg(e instanceof InvalidFontError ? `${e.message} Nothing was downloaded.` : "Failed to generate PDFs.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const canProcess = !busy &&
+        ((mode === 'auto' && enabledRules.length > 0 && pageError === null) ||
+            (mode === 'manual' && manualRegions.length > 0 && !(applyToAll && pageError)) ||
+            (mode === 'layout' && (!isZeroOffset(pageShift) || autoAlign !== null || pageShifts.some(o => !isZeroOffset(o)) || !isIdentityTransform(transform))));
+
+    return (
+        <div className="w-full max-w-4xl mx-auto mt-10 pb-20">
+            {/* Header / Batch Info */}
+            <div className="flex items-center justify-between mb-6 p-6 bg-white rounded-3xl shadow-sm border border-slate-100">
+                <div className="flex items-center gap-4">
+                    <div className="p-3 bg-blue-100 text-blue-600 rounded-xl">
+                        <Files className="w-6 h-6" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800">{files.length} files</h2>
+                        <p className="text-sm text-slate-500">
+                            {(files.reduce((sum, f) => sum + f.size, 0) / 1024 / 1024).toFixed(2)} MB total
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={onReset}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors bg-slate-50 hover:bg-slate-100 rounded-lg"
+                >
+                    <RefreshCw className="w-4 h-4" />
+                    Change Files
+                </button>
+            </div>
+
+            <ProfilePicker currentConfig={currentConfig} onLoad={applyConfig} disabled={busy} />
+
+            <div className="bg-white rounded-3xl shadow-lg border border-slate-100 overflow-hidden mb-8">
+                {/* Tabs */}
+                <div className="flex border-b border-slate-100">
+                    {([
+                        ['auto', Search, 'Auto Search'],
+                        ['manual', MousePointer2, 'Manual Select'],
+                        ['layout', Move, 'Page Layout'],
+                    ] as const).map(([tab, Icon, label]) => (
+                        <button
+                            key={tab}
+                            onClick={() => setMode(tab)}
+                            disabled={busy}
+                            className={cn(
+                                "flex-1 py-4 text-sm font-bold flex items-center justify-center gap-2 transition-colors",
+                                mode === tab ? "bg-blue-50 text-blue-600 border-b-2 border-blue-600" : "text-slate-500 hover:bg-slate-50"
+                            )}
+                        >
+                            <Icon className="w-4 h-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-8 space-y-4">
+                    {mode === 'auto' ? (
+                        <>
+                            <p className="text-sm text-slate-500">
+                                Every file is searched with the same rules, applied in order.
+                            </p>
+                            <RuleList rules={rules} onChange={handleRulesChange} counts={ruleCounts} disabled={busy} />
+                            <PageSelectorInput label="Only on pages" value={pages} onChange={handlePagesChange} error={pageError} disabled={busy} />
+                            <button
+                                onClick={handleScan}
+                                disabled={busy || enabledRules.length === 0 || pageError !== null}
+                                className="w-full py-3 rounded-xl font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-100 disabled:text-slate-400 transition-all flex items-center justify-center gap-2"
+                            >
+                                <Search className="w-4 h-4" />
+                                Scan Files
+                            </button>
+                        </>
+                    ) : mode === 'manual' ? (
+                        <>
+                            <p className="text-sm text-slate-500">
+                                Draw boxes on the first file. The same regions are replaced in every file; regions on pages a file doesn't have are skipped.
+                            </p>
+                            <PdfPreview
+                                file={files[0]}
+                                onSelectionChange={handleManualSelection}
+                                initialPage={manualRegions.length > 0 ? manualRegions[0].pageIndex + 1 : 1}
+                                regions={manualRegions}
+                                onRegionsChange={setManualRegions}
+                            />
+                            <RegionList regions={manualRegions} onChange={setManualRegions} />
+                            <label className="flex items-center gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={applyToAll}
+                                    onChange={(e) => setApplyToAll(e.target.checked)}
+                                    className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                                />
+                                Repeat every region on other pages of each file
+                            </label>
+                            {applyToAll && (
+                                <PageSelectorInput label="Repeat on pages" value={pages} onChange={setPages} error={pageError} disabled={busy} />
+                            )}
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-sm text-slate-500">
+                                Straighten, crop, rotate or resize the pages of every file the same way, and shift their content by the same amount or align each page automatically.
+                            </p>
+                            <AutoAlignControls value={autoAlign} onChange={setAutoAlign} disabled={busy} />
+                            <TransformControls value={transform} onChange={setTransform} disabled={busy} />
+                            <ShiftControls label="All pages" value={pageShift} onChange={setPageShift} disabled={busy} />
+                            {pageShifts.some(o => !isZeroOffset(o)) && (
+                                <p className="text-xs text-slate-500">
+                                    The loaded profile also shifts some pages on their own; those shifts apply to every file.
+                                </p>
+                            )}
+                        </>
+                    )}
+
+                    {mode !== 'layout' && (
+                        <>
+                            <GraphicPicker value={graphic} onChange={setGraphic} disabled={busy} />
+                            {mode === 'manual' && !graphic && <textarea
+                                value={newAddress}
+                                onChange={(e) => setNewAddress(e.target.value)}
+                                rows={3}
+                                className="w-full p-4 rounded-xl border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none resize-none font-sans"
+                            />}
+                            {!graphic && (
+                                <>
+                                    <FontPicker
+                                        value={font}
+                                        customFont={customFont}
+                                        onChange={(nextFont, nextCustomFont) => {
+                                            setFont(nextFont);
+                                            setCustomFont(nextCustomFont);
+                                        }}
+                                        texts={replacementTexts}
+                                        disabled={busy}
+                                    />
+                                    <TextLayoutControls value={textLayout} onChange={setTextLayout} disabled={busy} />
+                                </>
+                            )}
+                            <CoverControls value={cover} onChange={setCover} disabled={busy} />
+                            <div className="flex flex-wrap items-center gap-4">
+                                <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={redact}
+                                        onChange={(e) => setRedact(e.target.checked)}
+                                        className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                                    />
+                                    <ShieldCheck className="w-4 h-4" />
+                                    True redaction
+                                </label>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Queue */}
+            <motion.div layout className="bg-white rounded-3xl shadow-lg border border-slate-100 p-6">
+                <ul className="divide-y divide-slate-100 mb-6">
+                    {queue.map((entry, i) => (
+                        <li key={i} className="flex items-center justify-between py-3 gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                                {entry.status === 'done' ? <CheckCircle className="w-5 h-5 shrink-0 text-green-600" /> :
+                                    entry.status === 'failed' ? <AlertCircle className="w-5 h-5 shrink-0 text-red-600" /> :
+                                        entry.status === 'no-matches' ? <MinusCircle className="w-5 h-5 shrink-0 text-amber-500" /> :
+                                            entry.status === 'scanning' || entry.status === 'processing' ? <RefreshCw className="w-5 h-5 shrink-0 text-blue-600 animate-spin" /> :
+                                                <Clock className="w-5 h-5 shrink-0 text-slate-400" />}
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-slate-800 truncate">{entry.file.name}</p>
+                                    {entry.message && <p className="text-xs text-slate-500 truncate" title={entry.message}>{entry.message}</p>}
+                                </div>
+                            </div>
+                            <span className="text-xs text-slate-500 shrink-0">
+                                {entry.matchCount === null ? '' : `${entry.matchCount} match${entry.matchCount === 1 ? '' : 'es'}`}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+
+                {statusMsg && <p className="text-sm text-slate-600 mb-4 text-center">{statusMsg}</p>}
+
+                <button
+                    onClick={handleProcess}
+                    disabled={!canProcess}
+                    className={cn(
+                        "w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2",
+                        busy
+                            ? "bg-slate-100 text-slate-400 cursor-wait"
+                            : "bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:shadow-xl shadow-blue-500/30 disabled:opacity-50"
+                    )}
+                >
+                    {busy ? (
+                        <>
+                            <RefreshCw className="w-5 h-5 animate-spin" />
+                            Processing...
+                        </>
+                    ) : (
+                        <>
+                            <Download className="w-5 h-5" />
+                            Process All & Download ZIP
+                        </>
+                    )}
+                </button>
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+import { DEFAULT_COVER, type CoverOptions } from '../lib/cover';
+import type { Margins } from '../lib/layout';
+
+interface CoverControlsProps {
+    value: CoverOptions;
+    onChange: (value: CoverOptions) => void;
+    disabled?: boolean;
+}
+
+const EDGES: (keyof Margins)[] = ['top', 'right', 'bottom', 'left'];
+
+/** Picks the colour painted over the old text and how far past it the cover reaches. */
+export function CoverControls({ value, onChange, disabled }: CoverControlsProps) {
+    const auto = value.fill === 'auto';
+    const setPadding = (edge: keyof Margins, n: number) => {
+        if (Number.isFinite(n) && n >= 0) onChange({ ...value, padding: { ...value.padding, [edge]: n } });
+    };
+
+    return (
+        <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-200 text-sm text-slate-600">
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={auto}
+                        onChange={(e) => onChange({ ...value, fill: e.target.checked ? 'auto' : '#ffffff' })}
+                        disabled={disabled}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Match the page colour
+                </label>
+                <label className="flex items-center gap-2">
+                    Cover colour
+                    <input
+                        type="color"
+                        value={auto ? '#ffffff' : value.fill}
+                        onChange={(e) => onChange({ ...value, fill: e.target.value })}
+                        disabled={disabled || auto}
+                        className="w-10 h-8 p-0.5 rounded border border-slate-200 bg-white disabled:opacity-40"
+                    />
+                </label>
+            </div>
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-700">Cover padding (points past the old text)</span>
+                    <button
+                        onClick={() => onChange({ ...value, padding: DEFAULT_COVER.padding })}
+                        disabled={disabled}
+                        className="text-xs text-slate-400 hover:text-slate-600 underline disabled:opacity-50"
+                    >
+                        Reset
+                    </button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                    {EDGES.map(edge => (
+                        <label key={edge} className="flex flex-col gap-1 text-xs text-slate-500 capitalize">
+                            {edge}
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={value.padding[edge]}
+                                onChange={(e) => setPadding(edge, parseFloat(e.target.value))}
+                                disabled={disabled}
+                                className="px-2 py-1 rounded border border-slate-200 text-right text-sm text-slate-700 focus:border-blue-500 outline-none"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
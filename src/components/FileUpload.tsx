@@ -9,10 +9,10 @@ function cn(...inputs: ClassValue[]) {
 }
 
 interface FileUploadProps {
-    onFileSelect: (file: File) => void;
+    onFilesSelect: (files: File[]) => void;
 }
 
-export function FileUpload({ onFileSelect }: FileUploadProps) {
+export function FileUpload({ onFilesSelect }: FileUploadProps) {
     const [dragActive, setDragActive] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
     const [error, setError] = useState<string | null>(null);
@@ -27,28 +27,31 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
         }
     };
 
-    const validateAndSelect = (file: File) => {
-        if (file.type !== 'application/pdf') {
-            setError('Please upload a PDF file.');
+    const validateAndSelect = (fileList: FileList) => {
+        const files = Array.from(fileList);
+        const pdfs = files.filter(file => file.type === 'application/pdf');
+        if (pdfs.length === 0) {
+            setError(files.length > 1 ? 'Please upload PDF files.' : 'Please upload a PDF file.');
             return;
         }
+        // Non-PDFs mixed into a multi-file drop are skipped rather than failing the batch.
         setError(null);
-        onFileSelect(file);
+        onFilesSelect(pdfs);
     };
 
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault();
         e.stopPropagation();
         setDragActive(false);
-        if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            validateAndSelect(e.dataTransfer.files[0]);
+        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+            validateAndSelect(e.dataTransfer.files);
         }
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         e.preventDefault();
-        if (e.target.files && e.target.files[0]) {
-            validateAndSelect(e.target.files[0]);
+        if (e.target.files && e.target.files.length > 0) {
+            validateAndSelect(e.target.files);
         }
     };
 
@@ -80,6 +83,7 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
                     className="hidden"
                     type="file"
                     accept=".pdf"
+                    multiple
                     onChange={handleChange}
                 />
 
@@ -93,10 +97,10 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
 
                     <div className="space-y-2">
                         <h3 className="text-2xl font-semibold text-slate-800">
-                            {dragActive ? "Drop it like it's hot!" : "Upload your PDF"}
+                            {dragActive ? "Drop it like it's hot!" : "Upload your PDFs"}
                         </h3>
                         <p className="text-slate-500 max-w-xs mx-auto">
-                            Drag and drop your file here, or click to browse.
+                            Drag and drop one file, or several to fix them in one go. Or click to browse.
                         </p>
                     </div>
                 </div>
@@ -0,0 +1,99 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { AlertCircle, Upload } from 'lucide-react';
+import { FONT_OPTIONS } from '../lib/config';
+import { InvalidFontError, loadCustomFont, missingCharacters, type CustomFont } from '../lib/custom-font';
+import type { FontChoice } from '../lib/replacement-font';
+
+interface FontPickerProps {
+    value: FontChoice;
+    customFont: CustomFont | null;
+    onChange: (font: FontChoice, customFont: CustomFont | null) => void;
+    /** The replacement texts, checked for characters the font can't draw. */
+    texts: string[];
+    disabled?: boolean;
+}
+
+/**
+ * Picks the font for the new text: the document's, a standard font, or a
+ * TrueType/OpenType file of the user's. Lists any characters of `texts` the
+ * choice can't draw.
+ */
+export function FontPicker({ value, customFont, onChange, texts, disabled }: FontPickerProps) {
+    const id = useId();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [missing, setMissing] = useState<string[]>([]);
+
+    // Joined so the check reruns when the texts change, not on every render.
+    const textKey = texts.join('\n');
+    useEffect(() => {
+        let current = true;
+        missingCharacters([textKey], value, customFont).then(
+            chars => { if (current) setMissing(chars); },
+            () => { if (current) setMissing([]); },
+        );
+        return () => { current = false; };
+    }, [textKey, value, customFont]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFileError(null);
+        try {
+            onChange('custom', loadCustomFont(file.name, new Uint8Array(await file.arrayBuffer())));
+        } catch (e) {
+            setFileError(e instanceof InvalidFontError ? e.message : `Could not read "${file.name}".`);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor={id} className="text-sm font-medium text-slate-700">Font</label>
+                <select
+                    id={id}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value as FontChoice, customFont)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 text-sm bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none"
+                >
+                    <option value="auto">Match document</option>
+                    {FONT_OPTIONS.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                    {customFont && <option value="custom">{customFont.name} (font file)</option>}
+                </select>
+                <button
+                    onClick={() => fileInput.current?.click()}
+                    disabled={disabled}
+                    title="Use a TrueType or OpenType font file, for characters the standard fonts lack"
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 hover:text-slate-900 disabled:opacity-40 transition-colors shrink-0"
+                >
+                    <Upload className="w-4 h-4" />
+                    Font file
+                </button>
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".ttf,.otf,font/ttf,font/otf"
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFile(e.target.files?.[0]);
+                        // Picking the same file again should still load it.
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+            {missing.length > 0 && (
+                <p className="flex items-start gap-2 p-2 rounded-lg bg-amber-50 text-xs text-amber-800">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    <span>
+                        {value === 'custom' && customFont ? customFont.name : value === 'auto' ? "The standard fonts" : value} can't
+                        draw: <span className="font-mono font-semibold">{missing.join(' ')}</span>
+                        {value === 'auto' ? " (unless the document's own font has them)" : ''}. Pick a font file that has them.
+                    </span>
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { Image as ImageIcon, QrCode, Type, Upload } from 'lucide-react';
+import { fitsQrCode, InvalidImageError, type GraphicSource, type ImageFit, type ReplacementGraphic } from '../lib/graphic';
+import { loadGraphicFile } from '../svg-image';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface GraphicPickerProps {
+    value: ReplacementGraphic | null;
+    onChange: (value: ReplacementGraphic | null) => void;
+    disabled?: boolean;
+}
+
+type Kind = 'text' | GraphicSource['kind'];
+
+const KINDS: { value: Kind; label: string; Icon: typeof Type }[] = [
+    { value: 'text', label: 'Text', Icon: Type },
+    { value: 'image', label: 'Image', Icon: ImageIcon },
+    { value: 'qr', label: 'QR code', Icon: QrCode },
+];
+
+/**
+ * Chooses what goes in each box: the new text, an image file (PNG, JPEG or
+ * SVG) or a QR code, and how the picture fills the box. Until an image is
+ * picked or QR text that fits is typed, the new text is drawn.
+ */
+export function GraphicPicker({ value, onChange, disabled }: GraphicPickerProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [kind, setKind] = useState<Kind>(value?.source.kind ?? 'text');
+    // Kept while switching kinds, so switching back restores them.
+    const [image, setImage] = useState<GraphicSource | null>(value?.source.kind === 'image' ? value.source : null);
+    const [qrText, setQrText] = useState(value?.source.kind === 'qr' ? value.source.text : '');
+    const [fit, setFit] = useState<ImageFit>(value?.fit ?? 'contain');
+    const [fileError, setFileError] = useState<string | null>(null);
+    // The last value sent up; any other value came from a loaded config or profile.
+    const sent = useRef(value);
+
+    useEffect(() => {
+        if (value === sent.current) return;
+        sent.current = value;
+        if (!value) {
+            setKind('text');
+            return;
+        }
+        setKind(value.source.kind);
+        setFit(value.fit);
+        if (value.source.kind === 'image') setImage(value.source);
+        else setQrText(value.source.text);
+    }, [value]);
+
+    const emit = (nextKind: Kind, nextImage: GraphicSource | null, nextQrText: string, nextFit: ImageFit) => {
+        let next: ReplacementGraphic | null = null;
+        if (nextKind === 'image' && nextImage) next = { source: nextImage, fit: nextFit };
+        else if (nextKind === 'qr' && nextQrText && fitsQrCode(nextQrText)) next = { source: { kind: 'qr', text: nextQrText }, fit: nextFit };
+        sent.current = next;
+        onChange(next);
+    };
+
+    const chooseKind = (next: Kind) => {
+        setKind(next);
+        emit(next, image, qrText, fit);
+        if (next === 'image' && !image) fileInput.current?.click();
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFileError(null);
+        try {
+            const source = await loadGraphicFile(file);
+            setImage(source);
+            emit('image', source, qrText, fit);
+        } catch (e) {
+            setFileError(e instanceof InvalidImageError ? e.message : `Could not read "${file.name}".`);
+        }
+    };
+
+    return (
+        <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-200 text-sm text-slate-600">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="font-medium text-slate-700">Replace with</span>
+                <div className="flex rounded-lg border border-slate-200 bg-white overflow-hidden">
+                    {KINDS.map(({ value: option, label, Icon }) => (
+                        <button
+                            key={option}
+                            onClick={() => chooseKind(option)}
+                            disabled={disabled}
+                            aria-pressed={kind === option}
+                            className={cn(
+                                "flex items-center gap-1.5 px-3 py-1.5 transition-colors disabled:opacity-40",
+                                kind === option ? "bg-blue-50 text-blue-600" : "text-slate-500 hover:bg-slate-50",
+                            )}
+                        >
+                            <Icon className="w-4 h-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {kind === 'image' && (
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => fileInput.current?.click()}
+                        disabled={disabled}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 hover:text-slate-900 disabled:opacity-40 transition-colors shrink-0"
+                    >
+                        <Upload className="w-4 h-4" />
+                        {image ? 'Change image' : 'Choose image'}
+                    </button>
+                    <span className="truncate text-slate-500">{image?.kind === 'image' ? image.name : 'PNG, JPEG or SVG'}</span>
+                </div>
+            )}
+            <input
+                ref={fileInput}
+                type="file"
+                accept=".png,.jpg,.jpeg,.svg,image/png,image/jpeg,image/svg+xml"
+                className="hidden"
+                onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    // Picking the same file again should still load it.
+                    e.target.value = '';
+                }}
+            />
+            {kind === 'image' && fileError && <p className="text-xs text-red-600">{fileError}</p>}
+
+            {kind === 'qr' && (
+                <textarea
+                    value={qrText}
+                    onChange={(e) => {
+                        setQrText(e.target.value);
+                        emit('qr', image, e.target.value, fit);
+                    }}
+                    disabled={disabled}
+                    rows={2}
+                    placeholder="Text or link to encode"
+                    className="w-full p-2 rounded-lg border border-slate-200 bg-white focus:border-blue-500 outline-none resize-none"
+                />
+            )}
+            {kind === 'qr' && !fitsQrCode(qrText) && <p className="text-xs text-red-600">This is too long for a QR code.</p>}
+
+            {kind !== 'text' && (
+                <>
+                    <label className="flex items-center gap-2">
+                        Fit
+                        <select
+                            value={fit}
+                            onChange={(e) => {
+                                const next = e.target.value as ImageFit;
+                                setFit(next);
+                                emit(kind, image, qrText, next);
+                            }}
+                            disabled={disabled}
+                            className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white focus:border-blue-500 outline-none"
+                        >
+                            <option value="contain">Whole picture, as large as fits</option>
+                            <option value="cover">Fill the box, cropping the picture</option>
+                            <option value="stretch">Stretch to the box</option>
+                        </select>
+                    </label>
+                    <p className="text-xs text-slate-500">
+                        Drawn in each match's box instead of the new text. Form fields can only hold text, so they still get it.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfDocument } from '../lib/pdfjs';
+import type { Match } from '../lib/pdf-utils';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface MatchReviewProps {
+    file: File;
+    matches: Match[];
+    /** Indices into `matches` the user has chosen not to replace. */
+    rejected: Set<number>;
+    onRejectedChange: (rejected: Set<number>) => void;
+    activeIndex: number | null;
+    onActivate: (index: number) => void;
+}
+
+// Thumbnails show the match with some of its surroundings, at most this wide.
+const THUMB_MAX_WIDTH = 160;
+const THUMB_CONTEXT = 12;
+
+function MatchThumbnail({ doc, match }: { doc: PDFDocumentProxy; match: Match }) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        let task: { cancel(): void; promise: Promise<void> } | null = null;
+
+        const render = async () => {
+            const page = await doc.getPage(match.pageIndex + 1);
+            const canvas = canvasRef.current;
+            if (cancelled || !canvas) return;
+
+            const region = [
+                match.x - THUMB_CONTEXT, match.y - THUMB_CONTEXT,
+                match.x + match.width + THUMB_CONTEXT, match.y + match.height + THUMB_CONTEXT,
+            ];
+            const base = page.getViewport({ scale: 1 });
+            const [x1, y1, x2, y2] = base.convertToViewportRectangle(region);
+            const scale = Math.min(2, THUMB_MAX_WIDTH / Math.abs(x2 - x1));
+
+            // Shift the viewport so the region's top-left corner lands at the canvas origin.
+            const viewport = page.getViewport({ scale, offsetX: -Math.min(x1, x2) * scale, offsetY: -Math.min(y1, y2) * scale });
+            canvas.width = Math.ceil(Math.abs(x2 - x1) * scale);
+            canvas.height = Math.ceil(Math.abs(y2 - y1) * scale);
+            const context = canvas.getContext('2d');
+            if (!context) return;
+
+            task = page.render({ canvasContext: context, viewport });
+            await task.promise.catch(() => { /* cancelled */ });
+        };
+
+        render();
+        return () => {
+            cancelled = true;
+            task?.cancel();
+        };
+    }, [doc, match]);
+
+    return <canvas ref={canvasRef} className="max-w-[160px] max-h-16 rounded border border-slate-200 bg-white" />;
+}
+
+/**
+ * The list of found matches, each with a thumbnail of where it sits on the page
+ * and a checkbox to accept or reject it.
+ */
+export function MatchReview({ file, matches, rejected, onRejectedChange, activeIndex, onActivate }: MatchReviewProps) {
+    const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        let loaded: PDFDocumentProxy | null = null;
+        (async () => {
+            loaded = await loadPdfDocument(new Uint8Array(await file.arrayBuffer()));
+            if (mounted) setDoc(loaded);
+            else loaded.destroy();
+        })().catch(err => console.error("Error loading PDF for thumbnails:", err));
+        return () => {
+            mounted = false;
+            loaded?.destroy();
+        };
+    }, [file]);
+
+    const toggle = (index: number) => {
+        const next = new Set(rejected);
+        if (next.has(index)) next.delete(index); else next.add(index);
+        onRejectedChange(next);
+    };
+
+    const accepted = matches.length - rejected.size;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-semibold text-slate-700">
+                    Review matches: {accepted} of {matches.length} will be replaced
+                </span>
+                <div className="flex gap-3 text-indigo-600">
+                    <button onClick={() => onRejectedChange(new Set())} className="hover:underline">Accept all</button>
+                    <button onClick={() => onRejectedChange(new Set(matches.keys()))} className="hover:underline">Reject all</button>
+                </div>
+            </div>
+            <ul className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                {matches.map((match, index) => {
+                    const borderline = (match.score ?? 1) < 1;
+                    return (
+                        <li
+                            key={index}
+                            onClick={() => onActivate(index)}
+                            className={cn(
+                                "flex items-center gap-3 p-2 rounded-xl border cursor-pointer transition-colors",
+                                activeIndex === index ? "border-indigo-400 bg-indigo-50" : "border-slate-200 hover:bg-slate-50",
+                                rejected.has(index) && "opacity-50"
+                            )}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={!rejected.has(index)}
+                                onChange={() => toggle(index)}
+                                onClick={(e) => e.stopPropagation()}
+                                title={rejected.has(index) ? "Accept this match" : "Reject this match"}
+                                className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                            />
+                            {doc ? <MatchThumbnail doc={doc} match={match} /> : <div className="w-[160px] h-10 rounded bg-slate-100 animate-pulse" />}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-slate-800 truncate">"{match.text}"</p>
+                                <p className="text-xs text-slate-500 truncate">
+                                    Page {match.pageIndex + 1}
+                                    {match.source?.kind === 'field' && <> · form field "{match.source.name}"</>}
+                                    {match.source?.kind === 'annotation' && <> · text annotation</>}
+                                </p>
+                            </div>
+                            {borderline && (
+                                <span
+                                    title="Close but not exact: check before replacing"
+                                    className="flex items-center gap-1 px-2 py-1 rounded-full bg-amber-100 text-amber-700 text-xs font-semibold shrink-0"
+                                >
+                                    <AlertCircle className="w-3 h-3" />
+                                    {Math.round(match.score! * 100)}%
+                                </span>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,39 @@
+import { FileStack } from 'lucide-react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface PageSelectorInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    /** Why the current value can't be used, if it can't. */
+    error: string | null;
+    label: string;
+    disabled?: boolean;
+}
+
+export function PageSelectorInput({ value, onChange, error, label, disabled }: PageSelectorInputProps) {
+    return (
+        <div className="space-y-1">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <FileStack className="w-4 h-4 text-slate-400" />
+                {label}
+            </label>
+            <input
+                type="text"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={disabled}
+                placeholder="All pages, or e.g. 1,3-5,odd,last,-2"
+                className={cn(
+                    "w-full px-3 py-2 rounded-lg border text-sm transition-all outline-none",
+                    error ? "border-red-300 focus:ring-2 focus:ring-red-200" : "border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200"
+                )}
+            />
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+}
@@ -1,19 +1,68 @@
 import { useEffect, useRef, useState } from 'react';
-import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfDocument } from '../lib/pdfjs';
+import { placePage, type PageOffset, type PageTransform } from '../lib/layout';
+import { multiply, type Matrix, type Rect } from '../lib/matrix';
+import type { Match } from '../lib/pdf-utils';
 import { clsx } from 'clsx';
 
+/**
+ * A box drawn on the preview, converted to PDF user space (origin bottom-left
+ * of the unrotated page), so page rotation and MediaBox offsets are accounted for.
+ */
+export interface PageSelection {
+    pageIndex: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** The page's /Rotate, i.e. the direction text must run to read upright on screen. */
+    rotation: number;
+}
+
 interface PdfPreviewProps {
     file: File;
-    onSelectionChange: (rect: { x: number; y: number; width: number; height: number; pageIndex: number; viewportHeight: number } | null) => void;
+    onSelectionChange: (selection: PageSelection | null) => void;
     initialPage?: number;
+    /** Page to show; whenever it changes the preview jumps there. */
+    page?: number;
+    /** Matches to outline on the pages they are on. */
+    overlays?: Match[];
+    /** A match to emphasize, shown when it is on the current page. */
+    highlight?: Match | null;
+    /**
+     * Regions the user can move, resize and delete. When given, a newly drawn
+     * box is only reported through `onSelectionChange`; it is up to the parent
+     * to add it to the list.
+     */
+    regions?: Match[];
+    onRegionsChange?: (regions: Match[]) => void;
+    /**
+     * Produces the edited document in memory. When given, a "Preview result"
+     * toggle renders its output in place of the original. Pass a stable
+     * (memoized) function; a new one means the result is out of date.
+     */
+    renderResult?: () => Promise<Uint8Array>;
     onLoadSuccess?: (numPages: number) => void;
-    pageShift?: { x: number; y: number };
+    /** Called with the 1-based page number whenever the shown page changes. */
+    onPageChange?: (page: number) => void;
+    /**
+     * Layout mode corrections to preview on the original: the page is drawn
+     * as it will come out, and boxes can't be drawn on it.
+     */
+    layout?: { transform: PageTransform; shift: PageOffset };
 }
 
-export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuccess, pageShift = { x: 0, y: 0 } }: PdfPreviewProps) {
+// Fits a page of `width` points into the container, within sensible limits.
+function fitScale(containerWidth: number, width: number) {
+    const desiredScale = (containerWidth - 40) / width; // 40px padding
+    // Cap scale to avoid blurry huge images, but also don't be too small
+    return Math.min(Math.max(desiredScale, 0.5), 2.0);
+}
+
+export function PdfPreview({ file, onSelectionChange, initialPage = 1, page, overlays = [], highlight, regions, onRegionsChange, renderResult, onLoadSuccess, onPageChange, layout }: PdfPreviewProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const [scale, setScale] = useState(1.0);
     const [loading, setLoading] = useState(true);
     const [numPages, setNumPages] = useState(0);
     const [currentPage, setCurrentPage] = useState(initialPage);
@@ -26,56 +75,148 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
     const [currentPos, setCurrentPos] = useState<{ x: number, y: number } | null>(null);
     const [selection, setSelection] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
 
-    // Initial render
+    // Region being moved or resized, with the pointer position it started from
+    const [editing, setEditing] = useState<{ index: number, kind: 'move' | 'resize', origin: { x: number, y: number } } | null>(null);
+
+    // Result preview state
+    const [showResult, setShowResult] = useState(false);
+    const [resultData, setResultData] = useState<Uint8Array | null>(null);
+    const [resultError, setResultError] = useState<string | null>(null);
+    const previewing = showResult && !!renderResult;
+    // The result already has the layout applied.
+    const laidOut = !!layout && !previewing;
+
+    // The current page rendered unrotated, for drawing through the layout transform.
+    const sourceRef = useRef<{ canvas: HTMLCanvasElement, scale: number, view: Rect, rotation: number } | null>(null);
+
     useEffect(() => {
+        if (page !== undefined) setCurrentPage(page);
+    }, [page]);
+
+    useEffect(() => {
+        onPageChange?.(currentPage);
+    }, [currentPage]);
+
+    // Regenerate the result whenever it is shown with new inputs; shown again
+    // with the same inputs, the last one is reused.
+    const resultFor = useRef<(() => Promise<Uint8Array>) | null>(null);
+    useEffect(() => {
+        if (!previewing || resultFor.current === renderResult) return;
         let mounted = true;
+        let settled = false;
+        resultFor.current = renderResult;
+        setResultData(null);
+        setResultError(null);
+        renderResult().then(
+            data => { if (mounted) setResultData(data); },
+            err => {
+                console.error("Error generating preview:", err);
+                if (!mounted) return;
+                // Tried again the next time it is shown.
+                resultFor.current = null;
+                setResultError(err instanceof Error ? err.message : "Could not generate the result.");
+            },
+        ).finally(() => { settled = true; });
+        return () => {
+            mounted = false;
+            // Interrupted, so it has to be generated again next time.
+            if (!settled) resultFor.current = null;
+        };
+    }, [previewing, renderResult]);
 
-        const renderPage = async () => {
-            if (!canvasRef.current || !containerRef.current) return;
+    // The document shown, parsed once per file or result and kept for every
+    // page until either changes.
+    const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+    useEffect(() => {
+        setDoc(null);
+        if (previewing && !resultData) {
+            setLoading(true);
+            return;
+        }
+        let mounted = true;
+        let loaded: PDFDocumentProxy | null = null;
 
+        const load = async () => {
             try {
                 setLoading(true);
-                const arrayBuffer = await file.arrayBuffer();
-                const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-                const doc = await loadingTask.promise;
-
-                if (mounted) {
-                    setNumPages(doc.numPages);
-                    if (onLoadSuccess) onLoadSuccess(doc.numPages);
+                const data = previewing && resultData ? resultData : new Uint8Array(await file.arrayBuffer());
+                if (!mounted) return;
+                loaded = await loadPdfDocument(data);
+                if (!mounted) {
+                    loaded.destroy();
+                    return;
                 }
+                setNumPages(loaded.numPages);
+                if (onLoadSuccess) onLoadSuccess(loaded.numPages);
+                setDoc(loaded);
+            } catch (err) {
+                console.error("Error loading PDF:", err);
+                if (mounted) setLoading(false);
+            }
+        };
+
+        load();
+
+        return () => {
+            mounted = false;
+            loaded?.destroy();
+        };
+    }, [file, previewing, resultData]);
+
+    useEffect(() => {
+        if (!doc) return;
+        let mounted = true;
 
+        const renderPage = async () => {
+            if (!canvasRef.current || !containerRef.current) return;
+
+            try {
+                setLoading(true);
                 const page = await doc.getPage(currentPage);
 
                 if (!mounted) return;
                 setPageRef(page);
 
-                // Calculate scale to fit container width
                 const containerWidth = containerRef.current.clientWidth;
-                // Get unscaled viewport first
-                const unscaledViewport = page.getViewport({ scale: 1 });
-                const desiredScale = (containerWidth - 40) / unscaledViewport.width; // 40px padding
-                // Cap scale to avoid blurry huge images, but also don't be too small
-                const finalScale = Math.min(Math.max(desiredScale, 0.5), 2.0);
-
-                setScale(finalScale);
-                const viewport = page.getViewport({ scale: finalScale });
-                setViewport(viewport);
-
-                const canvas = canvasRef.current;
-                const context = canvas.getContext('2d');
-                if (!context) return;
-
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
 
-                await page.render({
-                    canvasContext: context,
-                    viewport: viewport
-                }).promise;
+                if (laidOut) {
+                    // Rendered wide enough for any turn of the page, then drawn by drawLayout.
+                    const [x1, y1, x2, y2] = page.view;
+                    const view = { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+                    const scale = fitScale(containerWidth, Math.min(view.width, view.height));
+                    const source = document.createElement('canvas');
+                    const viewport = page.getViewport({ scale, rotation: 0 });
+                    source.width = viewport.width;
+                    source.height = viewport.height;
+                    const context = source.getContext('2d');
+                    if (!context) return;
+                    await page.render({ canvasContext: context, viewport }).promise;
+                    if (!mounted) return;
+                    setViewport(viewport);
+                    sourceRef.current = { canvas: source, scale, view, rotation: page.rotate };
+                    drawLayout();
+                } else {
+                    sourceRef.current = null;
+                    const viewport = page.getViewport({ scale: fitScale(containerWidth, page.getViewport({ scale: 1 }).width) });
+                    setViewport(viewport);
+
+                    const canvas = canvasRef.current;
+                    const context = canvas.getContext('2d');
+                    if (!context) return;
+
+                    canvas.height = viewport.height;
+                    canvas.width = viewport.width;
+
+                    await page.render({
+                        canvasContext: context,
+                        viewport: viewport
+                    }).promise;
+                }
 
                 if (mounted) setLoading(false);
-
             } catch (err) {
+                // A document destroyed mid-render was replaced; the new one renders itself.
+                if (!mounted) return;
                 console.error("Error rendering PDF:", err);
                 setLoading(false);
             }
@@ -84,7 +225,65 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
         renderPage();
 
         return () => { mounted = false; };
-    }, [file, currentPage]);
+    }, [doc, currentPage, laidOut]);
+
+    // Draws the rendered page onto the canvas as the layout transform places it.
+    const drawLayout = () => {
+        const source = sourceRef.current;
+        const canvas = canvasRef.current;
+        if (!source || !canvas || !layout || !containerRef.current) return;
+        const placement = placePage(source.view, source.rotation, layout.transform, layout.shift);
+        const scale = fitScale(containerRef.current.clientWidth, placement.width);
+        canvas.width = placement.width * scale;
+        canvas.height = placement.height * scale;
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        context.fillStyle = 'white';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        // Source pixels -> page space -> new page space -> canvas pixels (y down).
+        const fromSource: Matrix = [1 / source.scale, 0, 0, -1 / source.scale, source.view.x, source.view.y + source.view.height];
+        const toCanvas: Matrix = [scale, 0, 0, -scale, 0, placement.height * scale];
+        context.setTransform(...multiply(multiply(fromSource, placement.matrix), toCanvas));
+        context.drawImage(source.canvas, 0, 0);
+        context.setTransform(1, 0, 0, 1, 0, 0);
+    };
+
+    useEffect(() => {
+        if (laidOut) drawLayout();
+    }, [laidOut, layout?.transform, layout?.shift.x, layout?.shift.y]);
+
+    // Match boxes in canvas pixels, one per line of the match. Hidden over the
+    // result, where the matched text has already been replaced.
+    const boxesFor = (match: Match | null | undefined) => match && viewport && !previewing && !laidOut && match.pageIndex === currentPage - 1
+        ? (match.lines ?? [match]).map(r => {
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([r.x, r.y, r.x + r.width, r.y + r.height]);
+            return { left: Math.min(x1, x2), top: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+        })
+        : [];
+    const overlayBoxes = overlays.filter(m => m !== highlight).flatMap(boxesFor);
+    const highlightBoxes = boxesFor(highlight);
+
+    // Canvas pixels back to PDF space, undoing scale, rotation and origin.
+    const toPdfRect = (box: { left: number, top: number, width: number, height: number }) => {
+        const [x1, y1] = viewport.convertToPdfPoint(box.left, box.top);
+        const [x2, y2] = viewport.convertToPdfPoint(box.left + box.width, box.top + box.height);
+        return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+    };
+
+    // Editable regions on this page, with any move or resize in progress applied.
+    // A region is edited as a whole, even when it has per-line boxes.
+    const regionBoxes = (regions ?? []).flatMap((region, index) => boxesFor({ ...region, lines: undefined }).map(box => {
+        if (editing?.index !== index || !currentPos) return { index, box };
+        const dx = currentPos.x - editing.origin.x;
+        const dy = currentPos.y - editing.origin.y;
+        return {
+            index,
+            box: editing.kind === 'move'
+                ? { ...box, left: box.left + dx, top: box.top + dy }
+                : { ...box, width: Math.max(5, box.width + dx), height: Math.max(5, box.height + dy) },
+        };
+    }));
 
     // Handle mouse events for basic box drawing
     const getCoords = (e: React.MouseEvent) => {
@@ -97,20 +296,44 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
     };
 
     const handleMouseDown = (e: React.MouseEvent) => {
+        if (previewing || laidOut) return;
         const coords = getCoords(e);
         setIsSelecting(true);
         setStartPos(coords);
         setCurrentPos(coords);
-        setSelection(null); // Clear previous
-        onSelectionChange(null);
+        if (!regions) {
+            setSelection(null); // Clear previous
+            onSelectionChange(null);
+        }
+    };
+
+    const handleRegionMouseDown = (e: React.MouseEvent, index: number, kind: 'move' | 'resize') => {
+        e.stopPropagation();
+        const coords = getCoords(e);
+        setEditing({ index, kind, origin: coords });
+        setCurrentPos(coords);
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (!isSelecting || !startPos) return;
+        if (!editing && (!isSelecting || !startPos)) return;
         setCurrentPos(getCoords(e));
     };
 
     const handleMouseUp = () => {
+        if (editing) {
+            const edited = regionBoxes.find(({ index }) => index === editing.index);
+            const moved = currentPos && (currentPos.x !== editing.origin.x || currentPos.y !== editing.origin.y);
+            setEditing(null);
+            if (edited && moved && regions && onRegionsChange) {
+                onRegionsChange(regions.map((region, i) => {
+                    if (i !== editing.index) return region;
+                    // Line boxes no longer fit the edited region.
+                    const { lines: _, ...rest } = region;
+                    return { ...rest, ...toPdfRect(edited.box) };
+                }));
+            }
+            return;
+        }
         if (!isSelecting || !startPos || !currentPos || !viewport) return;
         setIsSelecting(false);
 
@@ -123,66 +346,141 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
         // Don't register tiny accidental clicks
         if (w < 5 || h < 5) return;
 
-        setSelection({ x, y, w, h });
+        if (!regions) setSelection({ x, y, w, h });
 
         onSelectionChange({
-            x: x / scale, // Unscale x
-            y: y / scale, // Unscale y (this is top-left based)
-            width: w / scale,
-            height: h / scale,
             pageIndex: currentPage - 1, // 0-based index
-            viewportHeight: viewport.height / scale // This is the Original PDF Page Height
+            ...toPdfRect({ left: x, top: y, width: w, height: h }),
+            rotation: viewport.rotation,
         });
     };
 
     return (
         <div className="flex flex-col gap-4">
             {/* Page Navigation */}
-            {numPages > 1 && (
+            {(numPages > 1 || renderResult) && (
                 <div className="flex items-center justify-center gap-4 bg-white p-2 rounded-xl shadow-sm border border-slate-100">
-                    <button
-                        onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                        disabled={currentPage <= 1 || loading}
-                        className="px-3 py-1 text-sm font-medium rounded-lg hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        Previous
-                    </button>
-                    <span className="text-sm font-medium text-slate-600">
-                        Page {currentPage} of {numPages}
-                    </span>
-                    <button
-                        onClick={() => setCurrentPage(p => Math.min(numPages, p + 1))}
-                        disabled={currentPage >= numPages || loading}
-                        className="px-3 py-1 text-sm font-medium rounded-lg hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        Next
-                    </button>
+                    {numPages > 1 && (
+                        <>
+                            <button
+                                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                                disabled={currentPage <= 1 || loading}
+                                className="px-3 py-1 text-sm font-medium rounded-lg hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Previous
+                            </button>
+                            <span className="text-sm font-medium text-slate-600">
+                                Page {currentPage} of {numPages}
+                            </span>
+                            <button
+                                onClick={() => setCurrentPage(p => Math.min(numPages, p + 1))}
+                                disabled={currentPage >= numPages || loading}
+                                className="px-3 py-1 text-sm font-medium rounded-lg hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Next
+                            </button>
+                        </>
+                    )}
+                    {renderResult && (
+                        <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showResult}
+                                onChange={(e) => setShowResult(e.target.checked)}
+                                className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                            />
+                            Preview result
+                        </label>
+                    )}
+                </div>
+            )}
+
+            {previewing && resultError && (
+                <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700">
+                    Could not preview the result: {resultError}
                 </div>
             )}
 
             <div ref={containerRef} className="w-full bg-slate-100 rounded-xl overflow-hidden shadow-inner border border-slate-200 relative min-h-[200px] flex items-center justify-center">
-                {loading && (
+                {loading && !resultError && (
                     <div className="text-slate-400 animate-pulse">Loading Page {currentPage}...</div>
                 )}
 
-                <div className="relative p-5">
+                <div
+                    className="relative p-5"
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                >
                     {/* Canvas Wrapper */}
                     <canvas
                         ref={canvasRef}
                         className={clsx(
-                            "shadow-lg rounded cursor-crosshair touch-none select-none",
+                            "shadow-lg rounded touch-none select-none",
+                            previewing || laidOut ? "cursor-default" : "cursor-crosshair",
                             loading ? "opacity-0" : "opacity-100"
                         )}
                         onMouseDown={handleMouseDown}
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
-                        onMouseLeave={handleMouseUp}
-                        style={{
-                            transform: `translate(${pageShift.x}px, ${pageShift.y}px)`,
-                            transition: 'transform 0.2s ease-out'
-                        }}
                     />
 
+                    {/* Match Overlays */}
+                    {!loading && overlayBoxes.map((box, i) => (
+                        <div
+                            key={i}
+                            className="absolute border border-amber-500 bg-amber-400/20 pointer-events-none"
+                            style={{
+                                left: box.left + 20,
+                                top: box.top + 20,
+                                width: box.width,
+                                height: box.height,
+                            }}
+                        />
+                    ))}
+
+                    {/* Highlighted Match Overlay */}
+                    {!loading && highlightBoxes.map((box, i) => (
+                        <div
+                            key={i}
+                            className="absolute border-2 border-indigo-500 bg-indigo-500/20 pointer-events-none animate-pulse"
+                            style={{
+                                left: box.left + 20,
+                                top: box.top + 20,
+                                width: box.width,
+                                height: box.height,
+                            }}
+                        />
+                    ))}
+
+                    {/* Editable Regions */}
+                    {!loading && !previewing && regionBoxes.map(({ index, box }) => (
+                        <div
+                            key={index}
+                            onMouseDown={(e) => handleRegionMouseDown(e, index, 'move')}
+                            className="absolute border-2 border-green-500 bg-green-500/20 cursor-move select-none"
+                            style={{
+                                left: box.left + 20,
+                                top: box.top + 20,
+                                width: box.width,
+                                height: box.height,
+                            }}
+                        >
+                            <span className="absolute top-0 left-0 text-xs font-bold text-white bg-green-600 rounded-br px-1">{index + 1}</span>
+                            <button
+                                onMouseDown={(e) => e.stopPropagation()}
+                                onClick={() => onRegionsChange?.(regions!.filter((_, i) => i !== index))}
+                                title="Delete region"
+                                className="absolute -top-2.5 -right-2.5 w-5 h-5 flex items-center justify-center rounded-full bg-white border border-slate-300 text-slate-500 hover:text-red-600 text-xs leading-none shadow"
+                            >
+                                ×
+                            </button>
+                            <div
+                                onMouseDown={(e) => handleRegionMouseDown(e, index, 'resize')}
+                                title="Resize"
+                                className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-green-600 border border-white rounded-sm cursor-nwse-resize"
+                            />
+                        </div>
+                    ))}
+
                     {/* Draw Selection Overlay */}
                     {isSelecting && startPos && currentPos && (
                         <div
@@ -197,7 +495,7 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
                     )}
 
                     {/* Persisted Selection Overlay */}
-                    {!isSelecting && selection && (
+                    {!isSelecting && selection && !previewing && (
                         <div
                             className="absolute border-2 border-green-500 bg-green-500/20 pointer-events-none flex items-center justify-center p-1"
                             style={{
@@ -211,7 +509,7 @@ export function PdfPreview({ file, onSelectionChange, initialPage = 1, onLoadSuc
                         </div>
                     )}
 
-                    {!loading && !selection && !isSelecting && (
+                    {!loading && !previewing && !laidOut && !selection && !isSelecting && highlightBoxes.length === 0 && overlayBoxes.length === 0 && regionBoxes.length === 0 && (
                         <div className="absolute top-10 left-1/2 -translate-x-1/2 text-center pointer-events-none">
                             <span className="bg-slate-800/80 text-white px-3 py-1 rounded-full text-sm backdrop-blur-sm shadow-lg whitespace-nowrap">
                                 Drag to select address area
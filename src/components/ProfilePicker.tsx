@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Download, FolderOpen, Plus, Save, Trash2, Upload } from 'lucide-react';
+import type { SavedConfig } from '../lib/config';
+import { exportProfiles, parseProfiles, ProfileValidationError, type Profile } from '../lib/profiles';
+import { clearUnreadableProfiles, loadActiveProfileName, loadProfiles, loadUnreadableProfiles, PROFILES_CHANGED_EVENT, storeActiveProfileName, storeProfiles, type UnreadableProfiles } from '../config-storage';
+import { downloadBytes } from '../download';
+
+interface ProfilePickerProps {
+    /** The settings currently on screen, for saving into a profile. */
+    currentConfig: () => SavedConfig;
+    /** Called with a profile's settings when it is picked or imported. */
+    onLoad: (config: SavedConfig) => void;
+    disabled?: boolean;
+}
+
+const byName = (a: Profile, b: Profile) => a.name.localeCompare(b.name);
+
+/**
+ * Picks, saves, deletes, imports and exports the named settings profiles kept
+ * in local storage.
+ */
+export function ProfilePicker({ currentConfig, onLoad, disabled }: ProfilePickerProps) {
+    const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+    const [active, setActive] = useState<string | null>(loadActiveProfileName);
+    const [unreadable, setUnreadable] = useState<UnreadableProfiles[]>(loadUnreadableProfiles);
+    const [newName, setNewName] = useState<string | null>(null);
+    const [message, setMessage] = useState('');
+    const [problems, setProblems] = useState<string[]>([]);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    // Settings are also saved when a file is processed.
+    useEffect(() => {
+        const refresh = () => {
+            setProfiles(loadProfiles());
+            setActive(loadActiveProfileName());
+            setUnreadable(loadUnreadableProfiles());
+        };
+        window.addEventListener(PROFILES_CHANGED_EVENT, refresh);
+        return () => window.removeEventListener(PROFILES_CHANGED_EVENT, refresh);
+    }, []);
+
+    const update = (next: Profile[], nextActive: string | null) => {
+        storeProfiles([...next].sort(byName));
+        storeActiveProfileName(nextActive);
+        setProfiles([...next].sort(byName));
+        setActive(nextActive);
+        setProblems([]);
+    };
+
+    const select = (name: string) => {
+        const profile = profiles.find(p => p.name === name);
+        if (!profile) return;
+        update(profiles, name);
+        onLoad(profile.config);
+        setMessage(`Loaded "${name}".`);
+    };
+
+    const save = (name: string) => {
+        try {
+            update([...profiles.filter(p => p.name !== name), { name, config: currentConfig() }], name);
+        } catch (e) {
+            if (!(e instanceof DOMException && e.name === 'QuotaExceededError')) throw e;
+            setMessage(`"${name}" is too large to save in this browser; a smaller font or image file may fit.`);
+            return;
+        }
+        setMessage(`Saved "${name}".`);
+    };
+
+    const saveAs = () => {
+        const name = newName?.trim();
+        if (!name) return;
+        if (profiles.some(p => p.name === name)) {
+            setMessage(`A profile called "${name}" already exists.`);
+            return;
+        }
+        save(name);
+        setNewName(null);
+    };
+
+    const remove = () => {
+        if (!active) return;
+        update(profiles.filter(p => p.name !== active), null);
+        setMessage(`Deleted "${active}".`);
+    };
+
+    const handleExport = () => {
+        downloadBytes(new TextEncoder().encode(exportProfiles(profiles)), 'address-profiles.json', 'application/json');
+    };
+
+    const handleDownloadUnreadable = () => {
+        for (const { key, data, setAsideAt } of unreadable) {
+            downloadBytes(new TextEncoder().encode(data), `unreadable-profiles-${setAsideAt.getTime()}.json`, 'application/json');
+            clearUnreadableProfiles(key);
+        }
+        setUnreadable([]);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseProfiles(await file.text(), file.name.replace(/\.json$/i, ''));
+            const names = new Set(imported.map(p => p.name));
+            update([...profiles.filter(p => !names.has(p.name)), ...imported], imported[0]?.name ?? active);
+            if (imported[0]) onLoad(imported[0].config);
+            setMessage(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}${imported[0] ? `; loaded "${imported[0].name}"` : ''}.`);
+        } catch (err) {
+            console.error(err);
+            setMessage(`Could not import ${file.name}:`);
+            setProblems(err instanceof ProfileValidationError ? err.problems : [String(err)]);
+        }
+    };
+
+    const button = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 hover:text-slate-900 disabled:opacity-40 transition-colors";
+
+    return (
+        <div className="mb-6 p-4 bg-blue-50 rounded-xl border border-blue-100 text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <FolderOpen className="w-4 h-4 text-blue-600" />
+                <span className="font-semibold text-blue-900">Profile</span>
+                <select
+                    value={active ?? ''}
+                    onChange={(e) => select(e.target.value)}
+                    disabled={disabled || profiles.length === 0}
+                    className="px-2 py-1.5 rounded-lg border border-blue-200 bg-white text-sm focus:border-blue-500 outline-none min-w-[10rem]"
+                >
+                    <option value="" disabled>{profiles.length === 0 ? 'No saved profiles' : 'Choose a profile'}</option>
+                    {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <button onClick={() => active && save(active)} disabled={disabled || !active} className={button} title="Save the current settings into this profile">
+                    <Save className="w-4 h-4" /> Save
+                </button>
+                {newName === null ? (
+                    <button onClick={() => setNewName('')} disabled={disabled} className={button} title="Save the current settings as a new profile">
+                        <Plus className="w-4 h-4" /> New
+                    </button>
+                ) : (
+                    <form onSubmit={(e) => { e.preventDefault(); saveAs(); }} className="flex items-center gap-1">
+                        <input
+                            autoFocus
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="Client name"
+                            className="px-2 py-1.5 rounded-lg border border-blue-200 bg-white text-sm focus:border-blue-500 outline-none w-36"
+                        />
+                        <button type="submit" disabled={!newName.trim()} className={button}>Save as</button>
+                        <button type="button" onClick={() => setNewName(null)} className={button}>Cancel</button>
+                    </form>
+                )}
+                <button onClick={remove} disabled={disabled || !active} className={button} title="Delete this profile">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+                <div className="flex gap-2 ml-auto">
+                    <button onClick={() => importRef.current?.click()} disabled={disabled} className={button}>
+                        <Upload className="w-4 h-4" /> Import
+                    </button>
+                    <button onClick={handleExport} disabled={profiles.length === 0} className={button}>
+                        <Download className="w-4 h-4" /> Export
+                    </button>
+                    <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                </div>
+            </div>
+            {unreadable.length > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-red-700">
+                    <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span className="flex-1">The saved profiles could not be read, so they were set aside. Download them to fix and import again.</span>
+                    <button onClick={handleDownloadUnreadable} className={button}>
+                        <Download className="w-4 h-4" /> Download
+                    </button>
+                </div>
+            )}
+            {message && <p className="text-blue-700">{message}</p>}
+            {problems.length > 0 && (
+                <ul className="p-3 rounded-lg bg-red-50 text-red-700 space-y-1">
+                    {problems.map((problem, i) => (
+                        <li key={i} className="flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                            <span>{problem}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+import { Trash2 } from 'lucide-react';
+import type { Match } from '../lib/pdf-utils';
+
+interface RegionListProps {
+    /** Manual regions, numbered as in the preview. */
+    regions: Match[];
+    onChange: (regions: Match[]) => void;
+}
+
+export function RegionList({ regions, onChange }: RegionListProps) {
+    const setText = (index: number, text: string) => {
+        onChange(regions.map((region, i) => {
+            if (i !== index) return region;
+            const { replacement: _, ...rest } = region;
+            // An empty box falls back to the shared address.
+            return text ? { ...rest, replacement: text } : rest;
+        }));
+    };
+
+    return (
+        <ul className="space-y-2">
+            {regions.map((region, i) => (
+                <li key={i} className="flex items-start gap-2 p-2 rounded-xl border border-slate-200">
+                    <span className="flex items-center justify-center w-6 h-6 rounded-full bg-green-100 text-green-700 text-xs font-bold shrink-0">{i + 1}</span>
+                    <div className="flex-1 space-y-1">
+                        <p className="text-xs text-slate-500">
+                            Page {region.pageIndex + 1} · {Math.round(region.width)}x{Math.round(region.height)} pt
+                        </p>
+                        {/* Regions snapped to text carry its style and content. */}
+                        {region.style && (
+                            <p className="text-sm text-slate-700 truncate" title={region.text}>"{region.text}"</p>
+                        )}
+                        <textarea
+                            value={region.replacement ?? ''}
+                            onChange={(e) => setText(i, e.target.value)}
+                            rows={Math.max(1, (region.replacement ?? '').split('\n').length)}
+                            placeholder="Uses the shared address"
+                            className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none resize-none font-sans"
+                        />
+                    </div>
+                    <button
+                        onClick={() => onChange(regions.filter((_, j) => j !== i))}
+                        title="Delete region"
+                        className="p-1 text-slate-400 hover:text-red-600"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,142 @@
+import { ArrowDown, ArrowUp, Plus, Search, Trash2 } from 'lucide-react';
+import type { ReplaceRule } from '../lib/config';
+import { DEFAULT_FUZZY_THRESHOLD, type MatchMode } from '../lib/text-match';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface RuleListProps {
+    rules: ReplaceRule[];
+    onChange: (rules: ReplaceRule[]) => void;
+    /** Match count per rule from the last search, or null when not searched yet. */
+    counts: number[] | null;
+    disabled?: boolean;
+}
+
+const EMPTY_RULE: ReplaceRule = { find: '', replace: '', enabled: true };
+
+export function RuleList({ rules, onChange, counts, disabled }: RuleListProps) {
+    const update = (index: number, change: Partial<ReplaceRule>) => {
+        onChange(rules.map((rule, i) => i === index ? { ...rule, ...change } : rule));
+    };
+
+    const move = (index: number, offset: number) => {
+        const next = [...rules];
+        const [rule] = next.splice(index, 1);
+        next.splice(index + offset, 0, rule);
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            {rules.map((rule, i) => (
+                <div
+                    key={i}
+                    className={cn(
+                        "p-3 rounded-xl border border-slate-200 space-y-2 transition-opacity",
+                        !rule.enabled && "opacity-50"
+                    )}
+                >
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={(e) => update(i, { enabled: e.target.checked })}
+                            disabled={disabled}
+                            title={rule.enabled ? "Disable rule" : "Enable rule"}
+                            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                        />
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                            <input
+                                type="text"
+                                value={rule.find}
+                                onChange={(e) => update(i, { find: e.target.value })}
+                                disabled={disabled}
+                                placeholder={rule.mode === 'regex' ? "Pattern, e.g. \\d{5}" : "Find, e.g. 123 Main Street"}
+                                className={cn(
+                                    "w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none",
+                                    rule.mode === 'regex' && "font-mono"
+                                )}
+                            />
+                        </div>
+                        <select
+                            value={rule.mode ?? 'exact'}
+                            onChange={(e) => update(i, { mode: e.target.value as MatchMode })}
+                            disabled={disabled}
+                            title="Match mode"
+                            className="px-2 py-2 rounded-lg border border-slate-200 text-sm bg-white focus:border-blue-500 outline-none"
+                        >
+                            <option value="exact">Exact</option>
+                            <option value="regex">Regex</option>
+                            <option value="fuzzy">Fuzzy</option>
+                        </select>
+                        {rule.mode === 'fuzzy' && (
+                            <input
+                                type="number"
+                                min={50}
+                                max={100}
+                                step={5}
+                                value={Math.round((rule.threshold ?? DEFAULT_FUZZY_THRESHOLD) * 100)}
+                                onChange={(e) => update(i, { threshold: Number(e.target.value) / 100 })}
+                                disabled={disabled}
+                                title="Minimum similarity (%)"
+                                className="w-16 px-2 py-2 rounded-lg border border-slate-200 text-sm focus:border-blue-500 outline-none"
+                            />
+                        )}
+                        {counts && counts[i] !== undefined && (
+                            <span className={cn(
+                                "px-2 py-1 rounded-full text-xs font-semibold shrink-0",
+                                counts[i] > 0 ? "bg-green-100 text-green-700" : "bg-slate-100 text-slate-500"
+                            )}>
+                                {counts[i]} match{counts[i] === 1 ? '' : 'es'}
+                            </span>
+                        )}
+                        <button
+                            onClick={() => move(i, -1)}
+                            disabled={disabled || i === 0}
+                            title="Move up"
+                            className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        >
+                            <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => move(i, 1)}
+                            disabled={disabled || i === rules.length - 1}
+                            title="Move down"
+                            className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        >
+                            <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => onChange(rules.filter((_, j) => j !== i))}
+                            disabled={disabled || rules.length === 1}
+                            title="Remove rule"
+                            className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <textarea
+                        value={rule.replace}
+                        onChange={(e) => update(i, { replace: e.target.value })}
+                        disabled={disabled}
+                        rows={Math.max(1, rule.replace.split('\n').length)}
+                        placeholder="Replace with"
+                        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all outline-none resize-none font-sans"
+                    />
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...rules, EMPTY_RULE])}
+                disabled={disabled}
+                className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+                <Plus className="w-4 h-4" /> Add rule
+            </button>
+        </div>
+    );
+}
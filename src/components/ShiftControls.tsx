@@ -0,0 +1,74 @@
+import type { PageOffset } from '../lib/layout';
+import { clsx } from 'clsx';
+
+interface ShiftControlsProps {
+    label: string;
+    value: PageOffset;
+    onChange: (value: PageOffset) => void;
+    disabled?: boolean;
+}
+
+// Wide enough to move content across most of a page margin and back.
+const RANGE = 250;
+
+const AXES = [
+    { axis: 'x', name: 'Horizontal Shift', hint: ['Move Left', 'Move Right'] },
+    { axis: 'y', name: 'Vertical Shift', hint: ['Move Up', 'Move Down'] },
+] as const;
+
+/** Sliders with exact number inputs for a layout shift, in points. */
+export function ShiftControls({ label, value, onChange, disabled }: ShiftControlsProps) {
+    const set = (axis: 'x' | 'y', n: number) => {
+        if (Number.isFinite(n)) onChange({ ...value, [axis]: n });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-slate-700">{label}</span>
+                <button
+                    onClick={() => onChange({ x: 0, y: 0 })}
+                    disabled={disabled || (value.x === 0 && value.y === 0)}
+                    className="text-xs text-slate-400 hover:text-slate-600 underline disabled:no-underline disabled:opacity-50"
+                >
+                    Reset
+                </button>
+            </div>
+            {AXES.map(({ axis, name, hint }) => (
+                <div key={axis} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm font-medium text-slate-700">
+                        <span>{name}</span>
+                        <label className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                step="0.5"
+                                value={value[axis]}
+                                onChange={(e) => set(axis, parseFloat(e.target.value))}
+                                disabled={disabled}
+                                className={clsx(
+                                    "w-20 px-2 py-0.5 rounded border border-slate-200 text-right text-sm focus:border-blue-500 outline-none",
+                                    value[axis] !== 0 ? "text-blue-600" : "text-slate-400"
+                                )}
+                            />
+                            <span className="text-slate-400">pt</span>
+                        </label>
+                    </div>
+                    <input
+                        type="range"
+                        min={-RANGE}
+                        max={RANGE}
+                        step="0.5"
+                        value={Math.max(-RANGE, Math.min(RANGE, value[axis]))}
+                        onChange={(e) => set(axis, parseFloat(e.target.value))}
+                        disabled={disabled}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <div className="flex justify-between text-xs text-slate-400">
+                        <span>{hint[0]}</span>
+                        <span>{hint[1]}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+import { AlignCenter, AlignLeft, AlignRight } from 'lucide-react';
+import type { TextAlign, TextAnchor, TextLayout } from '../lib/text-layout';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+    return twMerge(clsx(inputs));
+}
+
+interface TextLayoutControlsProps {
+    value: TextLayout;
+    onChange: (value: TextLayout) => void;
+    disabled?: boolean;
+}
+
+const ALIGNS: { value: TextAlign; label: string; Icon: typeof AlignLeft }[] = [
+    { value: 'left', label: 'Align left', Icon: AlignLeft },
+    { value: 'center', label: 'Centre', Icon: AlignCenter },
+    { value: 'right', label: 'Align right', Icon: AlignRight },
+];
+
+/** Sets how the new text sits in each box: alignment, wrapping, spacing and shrinking. */
+export function TextLayoutControls({ value, onChange, disabled }: TextLayoutControlsProps) {
+    const lineHeight = (text: string) => {
+        const n = parseFloat(text);
+        if (!text.trim()) onChange({ ...value, lineHeight: null });
+        else if (n > 0) onChange({ ...value, lineHeight: n });
+    };
+
+    return (
+        <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-200 text-sm text-slate-600">
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="flex rounded-lg border border-slate-200 bg-white overflow-hidden">
+                    {ALIGNS.map(({ value: align, label, Icon }) => (
+                        <button
+                            key={align}
+                            onClick={() => onChange({ ...value, align })}
+                            disabled={disabled}
+                            title={label}
+                            aria-pressed={value.align === align}
+                            className={cn(
+                                "p-2 transition-colors disabled:opacity-40",
+                                value.align === align ? "bg-blue-50 text-blue-600" : "text-slate-500 hover:bg-slate-50",
+                            )}
+                        >
+                            <Icon className="w-4 h-4" />
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={value.anchor}
+                    onChange={(e) => onChange({ ...value, anchor: e.target.value as TextAnchor })}
+                    disabled={disabled}
+                    title="Where the text sits vertically in its box"
+                    className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white focus:border-blue-500 outline-none"
+                >
+                    <option value="auto">Old baseline, or middle of a region</option>
+                    <option value="baseline">Old baseline</option>
+                    <option value="top">Top</option>
+                    <option value="middle">Middle</option>
+                </select>
+                <label className="flex items-center gap-1">
+                    Line height
+                    <input
+                        type="number"
+                        min="0.5"
+                        step="0.1"
+                        placeholder="Auto"
+                        value={value.lineHeight ?? ''}
+                        onChange={(e) => lineHeight(e.target.value)}
+                        disabled={disabled}
+                        className="w-20 px-2 py-1 rounded border border-slate-200 text-right focus:border-blue-500 outline-none"
+                    />
+                    ×
+                </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={value.wrap}
+                        onChange={(e) => onChange({ ...value, wrap: e.target.checked })}
+                        disabled={disabled}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Wrap to the box width
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={value.shrinkToFit}
+                        onChange={(e) => onChange({ ...value, shrinkToFit: e.target.checked })}
+                        disabled={disabled}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Shrink to fit
+                </label>
+            </div>
+        </div>
+    );
+}
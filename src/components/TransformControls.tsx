@@ -0,0 +1,114 @@
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { isIdentityTransform, NO_TRANSFORM, PAPER_SIZES, type Margins, type PageTransform, type PaperSize, type QuarterTurn } from '../lib/layout';
+
+interface TransformControlsProps {
+    value: PageTransform;
+    onChange: (value: PageTransform) => void;
+    disabled?: boolean;
+}
+
+// Scanners skew pages by a degree or two; anything more is a rotation.
+const MAX_DESKEW = 10;
+
+const EDGES: (keyof Margins)[] = ['top', 'right', 'bottom', 'left'];
+
+/** Rotation, deskew, crop and paper-size controls for layout mode. */
+export function TransformControls({ value, onChange, disabled }: TransformControlsProps) {
+    const turn = (by: number) => onChange({ ...value, rotate: (((value.rotate + by) % 360 + 360) % 360) as QuarterTurn });
+    const setCrop = (edge: keyof Margins, n: number) => {
+        if (Number.isFinite(n) && n >= 0) onChange({ ...value, crop: { ...value.crop, [edge]: n } });
+    };
+    const button = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 hover:text-slate-900 disabled:opacity-40 transition-colors";
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-slate-700">Page transform</span>
+                <button
+                    onClick={() => onChange(NO_TRANSFORM)}
+                    disabled={disabled || isIdentityTransform(value)}
+                    className="text-xs text-slate-400 hover:text-slate-600 underline disabled:no-underline disabled:opacity-50"
+                >
+                    Reset
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+                <span className="font-medium mr-1">Rotate</span>
+                <button onClick={() => turn(-90)} disabled={disabled} className={button} title="Rotate 90° anticlockwise">
+                    <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => turn(90)} disabled={disabled} className={button} title="Rotate 90° clockwise">
+                    <RotateCw className="w-4 h-4" />
+                </button>
+                <span className={value.rotate !== 0 ? "text-blue-600" : "text-slate-400"}>{value.rotate}°</span>
+
+                <span className="font-medium ml-auto mr-1">Fit to</span>
+                <select
+                    value={value.fitTo ?? ''}
+                    onChange={(e) => onChange({ ...value, fitTo: (e.target.value || null) as PaperSize | null })}
+                    disabled={disabled}
+                    className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white focus:border-blue-500 outline-none"
+                >
+                    <option value="">Keep page size</option>
+                    {Object.keys(PAPER_SIZES).map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm font-medium text-slate-700">
+                    <span>Deskew</span>
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            step="0.1"
+                            min={-MAX_DESKEW}
+                            max={MAX_DESKEW}
+                            value={value.deskew}
+                            onChange={(e) => {
+                                const n = parseFloat(e.target.value);
+                                if (Number.isFinite(n)) onChange({ ...value, deskew: Math.max(-MAX_DESKEW, Math.min(MAX_DESKEW, n)) });
+                            }}
+                            disabled={disabled}
+                            className="w-20 px-2 py-0.5 rounded border border-slate-200 text-right text-sm focus:border-blue-500 outline-none"
+                        />
+                        <span className="text-slate-400">°</span>
+                    </label>
+                </div>
+                <input
+                    type="range"
+                    min={-MAX_DESKEW}
+                    max={MAX_DESKEW}
+                    step="0.1"
+                    value={value.deskew}
+                    onChange={(e) => onChange({ ...value, deskew: parseFloat(e.target.value) })}
+                    disabled={disabled}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+                <div className="flex justify-between text-xs text-slate-400">
+                    <span>Anticlockwise</span>
+                    <span>Clockwise</span>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <span className="text-sm font-medium text-slate-700">Crop (points trimmed from each edge)</span>
+                <div className="grid grid-cols-4 gap-2">
+                    {EDGES.map(edge => (
+                        <label key={edge} className="flex flex-col gap-1 text-xs text-slate-500 capitalize">
+                            {edge}
+                            <input
+                                type="number"
+                                min="0"
+                                value={value.crop[edge]}
+                                onChange={(e) => setCrop(edge, parseFloat(e.target.value))}
+                                disabled={disabled}
+                                className="px-2 py-1 rounded border border-slate-200 text-right text-sm text-slate-700 focus:border-blue-500 outline-none"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,131 @@
+import type { SavedConfig } from './lib/config';
+import { exportProfiles, migrateConfig, parseProfiles, type Profile } from './lib/profiles';
+
+const PROFILES_KEY = 'pdf-fixer-profiles';
+const ACTIVE_PROFILE_KEY = 'pdf-fixer-active-profile';
+// Before profiles, a single config was kept here.
+const LEGACY_CONFIG_KEY = 'pdf-fixer-config';
+// Stored profiles that couldn't be read are moved to this prefix plus the time they were set aside.
+const UNREADABLE_PROFILES_PREFIX = 'pdf-fixer-profiles-unreadable-';
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+/**
+ * Gets the stored profiles ready, once at startup before anything is rendered:
+ * profiles that can't be read are set aside, and after an upgrade the old
+ * single saved config becomes the "Default" profile.
+ */
+export function prepareProfileStorage() {
+    try {
+        setAsideUnreadableProfiles();
+        const legacy = localStorage.getItem(LEGACY_CONFIG_KEY);
+        if (!legacy || localStorage.getItem(PROFILES_KEY)) return;
+        storeProfiles([{ name: DEFAULT_PROFILE_NAME, config: migrateConfig(JSON.parse(legacy)) }]);
+        localStorage.setItem(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_NAME);
+        localStorage.removeItem(LEGACY_CONFIG_KEY);
+    } catch (e) {
+        console.error("Failed to prepare stored profiles", e);
+    }
+}
+
+/** All stored profiles; none when they can't be read. */
+export function loadProfiles(): Profile[] {
+    try {
+        const saved = localStorage.getItem(PROFILES_KEY);
+        return saved ? parseProfiles(saved) : [];
+    } catch (e) {
+        console.error("Failed to load profiles", e);
+        return [];
+    }
+}
+
+/**
+ * Moves stored profiles that can't be read to a key of their own, so that
+ * saving doesn't write over them. See `loadUnreadableProfiles`.
+ */
+function setAsideUnreadableProfiles() {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (!saved) return;
+    try {
+        parseProfiles(saved);
+        return;
+    } catch (e) {
+        console.error("Setting aside stored profiles that can't be read", e);
+    }
+    localStorage.setItem(`${UNREADABLE_PROFILES_PREFIX}${Date.now()}`, saved);
+    localStorage.removeItem(PROFILES_KEY);
+}
+
+export interface UnreadableProfiles {
+    key: string;
+    /** The profiles as they were stored. */
+    data: string;
+    setAsideAt: Date;
+}
+
+/** Stored profiles that were set aside because they couldn't be read, oldest first. */
+export function loadUnreadableProfiles(): UnreadableProfiles[] {
+    const found: UnreadableProfiles[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(UNREADABLE_PROFILES_PREFIX)) continue;
+        found.push({ key, data: localStorage.getItem(key) ?? '', setAsideAt: new Date(Number(key.slice(UNREADABLE_PROFILES_PREFIX.length))) });
+    }
+    return found.sort((a, b) => a.setAsideAt.getTime() - b.setAsideAt.getTime());
+}
+
+export function clearUnreadableProfiles(key: string) {
+    localStorage.removeItem(key);
+}
+
+/** Fired on `window` whenever the stored profiles change. */
+export const PROFILES_CHANGED_EVENT = 'pdf-fixer-profiles-changed';
+
+/** Replaces the stored profiles, first setting aside any that can't be read. */
+export function storeProfiles(profiles: Profile[]) {
+    setAsideUnreadableProfiles();
+    localStorage.setItem(PROFILES_KEY, exportProfiles(profiles));
+    window.dispatchEvent(new Event(PROFILES_CHANGED_EVENT));
+}
+
+export function loadActiveProfileName(): string | null {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+export function storeActiveProfileName(name: string | null) {
+    if (name) localStorage.setItem(ACTIVE_PROFILE_KEY, name);
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+}
+
+/** The active profile's config, if there is one. */
+export function loadSavedConfig(): SavedConfig | null {
+    const profiles = loadProfiles();
+    const active = loadActiveProfileName();
+    return profiles.find(p => p.name === active)?.config ?? null;
+}
+
+/**
+ * Saves into the active profile, creating "Default" when none is active.
+ * Returns false, leaving the stored profiles as they were, when they no longer
+ * fit in the browser's storage, e.g. with a large custom font.
+ */
+export function storeSavedConfig(config: SavedConfig): boolean {
+    const name = loadActiveProfileName() ?? DEFAULT_PROFILE_NAME;
+    const profiles = loadProfiles().filter(p => p.name !== name);
+    try {
+        storeProfiles([...profiles, { name, config }].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e) {
+        if (!(e instanceof DOMException && e.name === 'QuotaExceededError')) throw e;
+        console.error("Settings are too large to store", e);
+        return false;
+    }
+    storeActiveProfileName(name);
+    return true;
+}
+
+/** Deletes the active profile. */
+export function clearSavedConfig() {
+    const name = loadActiveProfileName();
+    storeProfiles(loadProfiles().filter(p => p.name !== name));
+    storeActiveProfileName(null);
+}
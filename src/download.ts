@@ -0,0 +1,13 @@
+/**
+ * Saves bytes generated in memory through a temporary object URL.
+ */
+export function downloadBytes(bytes: Uint8Array, fileName: string, type = 'application/pdf') {
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
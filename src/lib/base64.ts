@@ -0,0 +1,17 @@
+/** Binary data in configs, such as font and image files, is stored as base64. */
+
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Chunked, as spreading a whole file into fromCharCode overflows the stack.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
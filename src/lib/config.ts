@@ -0,0 +1,112 @@
+import { StandardFonts } from 'pdf-lib';
+import { DEFAULT_COVER, type CoverOptions } from './cover';
+import type { CustomFont } from './custom-font';
+import type { ReplacementGraphic } from './graphic';
+import { NO_TRANSFORM, type AutoAlignOptions, type PageOffset, type PageTransform } from './layout';
+import type { Match } from './pdf-utils';
+import type { FontChoice } from './replacement-font';
+import { DEFAULT_TEXT_LAYOUT, type TextLayout } from './text-layout';
+import type { FindOptions } from './text-match';
+
+export type Mode = 'auto' | 'manual' | 'layout';
+
+/**
+ * One find→replace pair in auto mode. Rules are applied in order; text already
+ * claimed by an earlier rule is not matched again by a later one.
+ */
+export interface ReplaceRule extends FindOptions {
+    find: string;
+    replace: string;
+    enabled: boolean;
+}
+
+/**
+ * The settings remembered between runs, and shared by every file in a batch.
+ */
+export interface SavedConfig {
+    mode: Mode;
+    /** Auto mode rules. Configs saved before rules existed only have `searchText`. */
+    rules?: ReplaceRule[];
+    searchText: string;
+    /** Replacement text for manual regions that have none of their own. */
+    newAddress: string;
+    /**
+     * Manual mode regions, each on its own page; a region's `replacement`
+     * overrides `newAddress`. Configs saved before regions existed only have
+     * `manualSelection`.
+     */
+    manualRegions?: Match[];
+    manualSelection: Match | null;
+    /** Fit newly drawn manual regions to the text under them. */
+    snapToText?: boolean;
+    /** Repeat every manual region on every page picked by `pages`. */
+    applyToAll?: boolean;
+    /**
+     * A page selector such as "1,3-5,last" limiting auto mode matches and the
+     * pages `applyToAll` repeats regions on. Empty or missing means every page.
+     */
+    pages?: string;
+    /** Layout mode shift for every page. */
+    pageShift?: PageOffset;
+    /** Extra layout mode shifts by page index, on top of `pageShift`. */
+    pageShifts?: (PageOffset | null)[];
+    /** Align each page's content automatically before the shifts above apply. */
+    autoAlign?: AutoAlignOptions | null;
+    /** Layout mode crop, rotation, deskew and scaling for every page. */
+    transform?: PageTransform;
+    redact?: boolean;
+    font?: FontChoice;
+    /** The font file used when `font` is `'custom'`. */
+    customFont?: CustomFont | null;
+    /** Alignment, wrapping and shrink-to-fit of the new text. */
+    textLayout?: TextLayout;
+    /** Colour and padding of the rectangles painted over the old text. */
+    cover?: CoverOptions;
+    /** An image or QR code drawn in place of the new text; null draws text. */
+    graphic?: ReplacementGraphic | null;
+}
+
+/** Settings for a fresh start, and for anything a saved config leaves out. */
+export const DEFAULT_CONFIG: SavedConfig = {
+    mode: 'auto',
+    rules: [{ find: '', replace: '', enabled: true }],
+    searchText: '',
+    newAddress: '123 New Address St,\nNew City, State 12345',
+    manualRegions: [],
+    manualSelection: null,
+    snapToText: false,
+    applyToAll: false,
+    pages: '',
+    pageShift: { x: 0, y: 0 },
+    pageShifts: [],
+    autoAlign: null,
+    transform: NO_TRANSFORM,
+    redact: false,
+    font: 'auto',
+    customFont: null,
+    textLayout: DEFAULT_TEXT_LAYOUT,
+    cover: DEFAULT_COVER,
+    graphic: null,
+};
+
+// Symbol and ZapfDingbats can't typeset an address.
+export const FONT_OPTIONS: StandardFonts[] = Object.values(StandardFonts)
+    .filter(name => name !== StandardFonts.Symbol && name !== StandardFonts.ZapfDingbats);
+
+/**
+ * The auto mode rules of a config, upgrading a single `searchText` /
+ * `newAddress` pair from older configs into a one-rule list.
+ */
+export function rulesOf(config: SavedConfig): ReplaceRule[] {
+    if (config.rules) return config.rules;
+    return config.searchText ? [{ find: config.searchText, replace: config.newAddress, enabled: true }] : [];
+}
+
+/**
+ * The manual mode regions of a config, upgrading a single `manualSelection`
+ * from older configs into a one-region list.
+ */
+export function regionsOf(config: SavedConfig): Match[] {
+    if (config.manualRegions) return config.manualRegions;
+    return config.manualSelection ? [config.manualSelection] : [];
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { joinContent, parseContentStream, serializeOperation, type Operand } from './content-stream';
+
+const bytes = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0));
+const text = (data: Uint8Array) => String.fromCharCode(...data);
+
+describe('parseContentStream', () => {
+    it('splits operators and their operands, keeping their byte ranges', () => {
+        const source = bytes('q 1 0 0 1 10.5 -20 cm\nBT /F1 12 Tf (Hi) Tj ET Q');
+        const operations = parseContentStream(source);
+        expect(operations.map(op => op.operator)).toEqual(['q', 'cm', 'BT', 'Tf', 'Tj', 'ET', 'Q']);
+        expect(operations[1].operands).toEqual([1, 0, 0, 1, 10.5, -20].map(value => ({ kind: 'number', value })));
+        expect(operations.map(op => text(source.subarray(op.start, op.end)))).toEqual([
+            'q', '1 0 0 1 10.5 -20 cm', 'BT', '/F1 12 Tf', '(Hi) Tj', 'ET', 'Q',
+        ]);
+    });
+
+    it('reads TJ arrays of strings and adjustments', () => {
+        const [op] = parseContentStream(bytes('[(Old) -250 <526f6164> 30] TJ'));
+        expect(op.operator).toBe('TJ');
+        expect(op.operands).toEqual([{
+            kind: 'array',
+            items: [
+                { kind: 'string', bytes: bytes('Old') },
+                { kind: 'number', value: -250 },
+                { kind: 'string', bytes: bytes('Road') },
+                { kind: 'number', value: 30 },
+            ],
+        }]);
+    });
+
+    it('decodes literal string escapes and nested parentheses', () => {
+        const [op] = parseContentStream(bytes('(a\\(b\\) (c) \\n\\101\\\nz) Tj'));
+        expect(op.operands).toEqual([{ kind: 'string', bytes: bytes('a(b) (c) \nAz') }]);
+    });
+
+    it('pads odd-length hex strings and ignores whitespace in them', () => {
+        const [op] = parseContentStream(bytes('<48 65 6> Tj'));
+        expect(op.operands).toEqual([{ kind: 'string', bytes: Uint8Array.from([0x48, 0x65, 0x60]) }]);
+    });
+
+    it('decodes names, dictionaries and keywords, and skips comments', () => {
+        const [op] = parseContentStream(bytes('% comment\n/Span#20A <</MCID 3 /Alt true>> BDC'));
+        expect(op.operator).toBe('BDC');
+        expect(op.operands).toEqual([
+            { kind: 'name', value: 'Span A' },
+            { kind: 'dict', entries: new Map<string, Operand>([['MCID', { kind: 'number', value: 3 }], ['Alt', { kind: 'keyword', value: 'true' }]]) },
+        ]);
+    });
+
+    it('keeps an inline image, binary data and all, as one operation', () => {
+        const source = bytes('BI /W 2 /H 1 /BPC 8 /CS /G ID \x00EI\xff EI Q');
+        const operations = parseContentStream(source);
+        expect(operations.map(op => op.operator)).toEqual(['BI', 'Q']);
+        expect(text(source.subarray(operations[0].start, operations[0].end))).toBe('BI /W 2 /H 1 /BPC 8 /CS /G ID \x00EI\xff EI');
+    });
+});
+
+describe('serializeOperation', () => {
+    it('writes operands that parse back to the same values', () => {
+        const operands: Operand[] = [{
+            kind: 'array',
+            items: [
+                { kind: 'string', bytes: bytes('(Old)') },
+                { kind: 'number', value: -1234.56789 },
+                { kind: 'name', value: 'A B/C' },
+            ],
+        }];
+        const serialized = serializeOperation('TJ', operands);
+        expect(serialized).toBe('[<284f6c6429> -1234.5679 /A#20B#2fC] TJ');
+
+        const [op] = parseContentStream(bytes(serialized));
+        expect(op.operands).toEqual([{
+            kind: 'array',
+            items: [
+                { kind: 'string', bytes: bytes('(Old)') },
+                { kind: 'number', value: -1234.5679 },
+                { kind: 'name', value: 'A B/C' },
+            ],
+        }]);
+    });
+});
+
+describe('joinContent', () => {
+    it('joins raw slices and serialized operators with newlines', () => {
+        expect(text(joinContent([bytes('q'), '1 0 0 1 0 0 cm', bytes('Q')]))).toBe('q\n1 0 0 1 0 0 cm\nQ\n');
+    });
+});
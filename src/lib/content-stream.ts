@@ -0,0 +1,323 @@
+import { PDFArray, PDFName, PDFRawStream, PDFStream, decodePDFRawStream, type PDFContext, type PDFPage } from 'pdf-lib';
+
+/**
+ * A minimal PDF content stream tokenizer and serializer.
+ *
+ * Operations keep the byte range they were parsed from, so callers that only
+ * rewrite a handful of operators can copy everything else through untouched.
+ */
+
+export type Operand =
+    | { kind: 'number'; value: number }
+    | { kind: 'name'; value: string }
+    | { kind: 'string'; bytes: Uint8Array }
+    | { kind: 'array'; items: Operand[] }
+    | { kind: 'dict'; entries: Map<string, Operand> }
+    | { kind: 'keyword'; value: string }; // true, false, null
+
+export interface Operation {
+    operator: string;
+    operands: Operand[];
+    /** Byte offset of the first operand (or of the operator when there are none). */
+    start: number;
+    /** Byte offset just past the operator (past `EI` for inline images). */
+    end: number;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isWhitespace = (b: number) => WHITESPACE.has(b);
+const isRegular = (b: number) => !WHITESPACE.has(b) && !DELIMITERS.has(b);
+
+class Tokenizer {
+    pos = 0;
+    private readonly bytes: Uint8Array;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+    }
+
+    get done() {
+        return this.pos >= this.bytes.length;
+    }
+
+    skipWhitespaceAndComments() {
+        const b = this.bytes;
+        while (this.pos < b.length) {
+            if (isWhitespace(b[this.pos])) {
+                this.pos++;
+            } else if (b[this.pos] === 0x25) { // %
+                while (this.pos < b.length && b[this.pos] !== 0x0a && b[this.pos] !== 0x0d) this.pos++;
+            } else {
+                break;
+            }
+        }
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.bytes.length && isRegular(this.bytes[this.pos])) this.pos++;
+        return latin1(this.bytes.subarray(start, this.pos));
+    }
+
+    /**
+     * Reads the next operand, or returns the bare keyword when an operator is found.
+     */
+    next(): Operand | { kind: 'operator'; value: string } | null {
+        this.skipWhitespaceAndComments();
+        if (this.done) return null;
+
+        const b = this.bytes;
+        const c = b[this.pos];
+
+        if (c === 0x2f) { // /Name
+            this.pos++;
+            const raw = this.readRegular();
+            return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+        }
+        if (c === 0x28) return { kind: 'string', bytes: this.readLiteralString() };
+        if (c === 0x3c) {
+            if (b[this.pos + 1] === 0x3c) return this.readDict();
+            return { kind: 'string', bytes: this.readHexString() };
+        }
+        if (c === 0x5b) {
+            this.pos++;
+            const items: Operand[] = [];
+            while (true) {
+                this.skipWhitespaceAndComments();
+                if (this.done) break;
+                if (b[this.pos] === 0x5d) {
+                    this.pos++;
+                    break;
+                }
+                const item = this.next();
+                if (!item) break;
+                if (item.kind !== 'operator') items.push(item);
+            }
+            return { kind: 'array', items };
+        }
+        if (!isRegular(c)) {
+            // Stray delimiter (e.g. an unbalanced `)` or `>`); skip it.
+            this.pos++;
+            return this.next();
+        }
+
+        const word = this.readRegular();
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { kind: 'number', value: parseFloat(word) };
+        if (word === 'true' || word === 'false' || word === 'null') return { kind: 'keyword', value: word };
+        return { kind: 'operator', value: word };
+    }
+
+    private readLiteralString(): Uint8Array {
+        const b = this.bytes;
+        const out: number[] = [];
+        let depth = 0;
+        this.pos++; // (
+        while (this.pos < b.length) {
+            const c = b[this.pos++];
+            if (c === 0x5c) { // backslash
+                const e = b[this.pos++];
+                switch (e) {
+                    case 0x6e: out.push(0x0a); break; // n
+                    case 0x72: out.push(0x0d); break; // r
+                    case 0x74: out.push(0x09); break; // t
+                    case 0x62: out.push(0x08); break; // b
+                    case 0x66: out.push(0x0c); break; // f
+                    case 0x0d: if (b[this.pos] === 0x0a) this.pos++; break; // line continuation
+                    case 0x0a: break;
+                    default:
+                        if (e >= 0x30 && e <= 0x37) {
+                            let oct = e - 0x30;
+                            for (let i = 0; i < 2 && b[this.pos] >= 0x30 && b[this.pos] <= 0x37; i++) {
+                                oct = oct * 8 + (b[this.pos++] - 0x30);
+                            }
+                            out.push(oct & 0xff);
+                        } else if (e !== undefined) {
+                            out.push(e);
+                        }
+                }
+            } else if (c === 0x28) {
+                depth++;
+                out.push(c);
+            } else if (c === 0x29) {
+                if (depth === 0) break;
+                depth--;
+                out.push(c);
+            } else {
+                out.push(c);
+            }
+        }
+        return Uint8Array.from(out);
+    }
+
+    private readHexString(): Uint8Array {
+        const b = this.bytes;
+        this.pos++; // <
+        let hex = '';
+        while (this.pos < b.length && b[this.pos] !== 0x3e) {
+            const c = b[this.pos++];
+            if (!isWhitespace(c)) hex += String.fromCharCode(c);
+        }
+        this.pos++; // >
+        if (hex.length % 2) hex += '0';
+        const out = new Uint8Array(hex.length / 2);
+        for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16) || 0;
+        return out;
+    }
+
+    private readDict(): Operand {
+        this.pos += 2; // <<
+        const entries = new Map<string, Operand>();
+        while (true) {
+            this.skipWhitespaceAndComments();
+            if (this.done) break;
+            if (this.bytes[this.pos] === 0x3e && this.bytes[this.pos + 1] === 0x3e) {
+                this.pos += 2;
+                break;
+            }
+            const key = this.next();
+            const value = this.next();
+            if (!key || !value) break;
+            if (key.kind === 'name' && value.kind !== 'operator') entries.set(key.value, value);
+        }
+        return { kind: 'dict', entries };
+    }
+
+    /**
+     * Skips inline image data following `ID`, leaving pos just past `EI`.
+     */
+    skipInlineImageData() {
+        const b = this.bytes;
+        this.pos++; // single whitespace after ID
+        while (this.pos < b.length) {
+            if (b[this.pos] === 0x45 && b[this.pos + 1] === 0x49 &&
+                isWhitespace(b[this.pos - 1]) &&
+                (this.pos + 2 >= b.length || isWhitespace(b[this.pos + 2]))) {
+                this.pos += 2;
+                return;
+            }
+            this.pos++;
+        }
+    }
+}
+
+export function parseContentStream(bytes: Uint8Array): Operation[] {
+    const tokenizer = new Tokenizer(bytes);
+    const operations: Operation[] = [];
+    let operands: Operand[] = [];
+    let start = -1;
+
+    while (true) {
+        tokenizer.skipWhitespaceAndComments();
+        if (start === -1) start = tokenizer.pos;
+        const token = tokenizer.next();
+        if (!token) break;
+
+        if (token.kind !== 'operator') {
+            operands.push(token);
+            continue;
+        }
+
+        if (token.value === 'BI') {
+            // Inline image: `BI <key value ...> ID <binary> EI`, kept as one operation.
+            const dict = new Map<string, Operand>();
+            while (true) {
+                const key = tokenizer.next();
+                if (!key || (key.kind === 'operator' && key.value === 'ID')) break;
+                const value = tokenizer.next();
+                if (key.kind === 'name' && value && value.kind !== 'operator') dict.set(key.value, value);
+            }
+            tokenizer.skipInlineImageData();
+            operations.push({ operator: 'BI', operands: [{ kind: 'dict', entries: dict }], start, end: tokenizer.pos });
+        } else {
+            operations.push({ operator: token.value, operands, start, end: tokenizer.pos });
+        }
+        operands = [];
+        start = -1;
+    }
+    return operations;
+}
+
+function latin1(bytes: Uint8Array): string {
+    let s = '';
+    for (let i = 0; i < bytes.length; i++) s += String.fromCharCode(bytes[i]);
+    return s;
+}
+
+function formatNumber(n: number): string {
+    if (Number.isInteger(n)) return String(n);
+    return n.toFixed(4).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+export function serializeOperand(operand: Operand): string {
+    switch (operand.kind) {
+        case 'number':
+            return formatNumber(operand.value);
+        case 'name':
+            return '/' + operand.value.replace(/[^!-~]|[#()<>[\]{}/%]/g, ch => '#' + ch.charCodeAt(0).toString(16).padStart(2, '0'));
+        case 'string':
+            return '<' + Array.from(operand.bytes, byte => byte.toString(16).padStart(2, '0')).join('') + '>';
+        case 'array':
+            return '[' + operand.items.map(serializeOperand).join(' ') + ']';
+        case 'dict':
+            return '<<' + Array.from(operand.entries, ([k, v]) => `${serializeOperand({ kind: 'name', value: k })} ${serializeOperand(v)}`).join(' ') + '>>';
+        case 'keyword':
+            return operand.value;
+    }
+}
+
+export function serializeOperation(operator: string, operands: Operand[]): string {
+    return [...operands.map(serializeOperand), operator].join(' ');
+}
+
+/**
+ * Builds a content stream from a mix of raw byte slices and serialized operators.
+ */
+export function joinContent(chunks: (Uint8Array | string)[]): Uint8Array {
+    const encoded = chunks.map(chunk => typeof chunk === 'string'
+        ? Uint8Array.from(chunk, ch => ch.charCodeAt(0) & 0xff)
+        : chunk);
+    const total = encoded.reduce((sum, chunk) => sum + chunk.length + 1, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of encoded) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+        out[offset++] = 0x0a;
+    }
+    return out;
+}
+
+export function decodeStream(stream: PDFStream): Uint8Array {
+    if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+    const maybeFlate = stream as PDFStream & { getUnencodedContents?: () => Uint8Array };
+    return maybeFlate.getUnencodedContents ? maybeFlate.getUnencodedContents() : stream.getContents();
+}
+
+/**
+ * Returns the decoded, concatenated content of every stream in a page's /Contents.
+ */
+export function readPageContent(page: PDFPage): Uint8Array {
+    const contents = page.node.Contents();
+    if (!contents) return new Uint8Array();
+
+    const streams: PDFStream[] = [];
+    if (contents instanceof PDFArray) {
+        for (let i = 0; i < contents.size(); i++) {
+            const stream = page.doc.context.lookup(contents.get(i));
+            if (stream instanceof PDFStream) streams.push(stream);
+        }
+    } else {
+        streams.push(contents);
+    }
+    return joinContent(streams.map(decodeStream));
+}
+
+/**
+ * Replaces a page's /Contents with a single flate-compressed stream.
+ */
+export function writePageContent(context: PDFContext, page: PDFPage, content: Uint8Array) {
+    const stream = context.flateStream(content);
+    page.node.set(PDFName.of('Contents'), context.obj([context.register(stream)]));
+}
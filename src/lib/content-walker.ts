@@ -0,0 +1,235 @@
+import type { Operand, Operation } from './content-stream';
+import { IDENTITY, multiply, transformRect, type Matrix, type Rect } from './matrix';
+import type { FontInfo } from './pdf-fonts';
+
+/**
+ * A small content stream interpreter that tracks just enough graphics and text
+ * state to know where every glyph, image and form XObject lands on the page.
+ */
+
+export interface FillColor {
+    /** Number of components decides the device space: 1 = gray, 3 = RGB, 4 = CMYK. */
+    components: number[];
+}
+
+export interface TextState {
+    fontName: string | null;
+    font: FontInfo | null;
+    fontSize: number;
+    charSpacing: number;
+    wordSpacing: number;
+    horizontalScale: number;
+    leading: number;
+    rise: number;
+}
+
+export interface GraphicsState {
+    ctm: Matrix;
+    fill: FillColor;
+    text: TextState;
+}
+
+export interface Glyph {
+    code: number;
+    bytes: Uint8Array;
+    /** Advance in thousandths of text space, before spacing is applied. */
+    width: number;
+    /** True for single-byte code 32, which word spacing applies to. */
+    isSpace: boolean;
+    /** Text rendering matrix at the glyph origin (text space → page space, font size included). */
+    matrix: Matrix;
+    /** Approximate glyph box in page space. */
+    bbox: Rect;
+}
+
+/** One element of a text-showing operator: a glyph, or a TJ position adjustment. */
+export type ShowElement = { glyph: Glyph } | { adjustment: number };
+
+export interface ContentVisitor {
+    onShowText?(op: Operation, elements: ShowElement[], state: GraphicsState): void;
+    /** Called for `Do` and inline images (`BI`, name is null) with the placement box in page space. */
+    onXObject?(op: Operation, name: string | null, bbox: Rect | null, state: GraphicsState): void;
+    onOperation?(op: Operation, state: GraphicsState): void;
+}
+
+export interface WalkOptions {
+    resolveFont(name: string): FontInfo | null;
+    /** Returns the XObject's bounding box in its own space, or null for images (unit square). */
+    resolveXObject?(name: string): { matrix: Matrix; bbox: Rect } | null;
+    initialCtm?: Matrix;
+}
+
+// Glyph boxes span from roughly the descender to the ascender of a typical font.
+const GLYPH_DESCENT = -0.2;
+const GLYPH_ASCENT = 0.8;
+
+const num = (operand: Operand | undefined) => operand?.kind === 'number' ? operand.value : 0;
+
+function matrixFrom(operands: Operand[]): Matrix {
+    return [num(operands[0]), num(operands[1]), num(operands[2]), num(operands[3]), num(operands[4]), num(operands[5])];
+}
+
+function splitCodes(bytes: Uint8Array, font: FontInfo | null): { code: number; bytes: Uint8Array }[] {
+    const size = font?.bytesPerCode ?? 1;
+    const codes = [];
+    for (let i = 0; i < bytes.length; i += size) {
+        const chunk = bytes.subarray(i, i + size);
+        const code = size === 2 ? (chunk[0] << 8) | (chunk[1] ?? 0) : chunk[0];
+        codes.push({ code, bytes: chunk });
+    }
+    return codes;
+}
+
+export function walkContent(operations: Operation[], options: WalkOptions, visitor: ContentVisitor) {
+    let state: GraphicsState = {
+        ctm: options.initialCtm ?? IDENTITY,
+        fill: { components: [0] },
+        text: {
+            fontName: null,
+            font: null,
+            fontSize: 0,
+            charSpacing: 0,
+            wordSpacing: 0,
+            horizontalScale: 1,
+            leading: 0,
+            rise: 0,
+        },
+    };
+    const stack: GraphicsState[] = [];
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+
+    const moveLine = (tx: number, ty: number) => {
+        tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+        tm = tlm;
+    };
+
+    const show = (op: Operation, parts: Operand[]) => {
+        const { text } = state;
+        const elements: ShowElement[] = [];
+
+        for (const part of parts) {
+            if (part.kind === 'number') {
+                const tx = -part.value / 1000 * text.fontSize * text.horizontalScale;
+                tm = multiply([1, 0, 0, 1, tx, 0], tm);
+                elements.push({ adjustment: part.value });
+                continue;
+            }
+            if (part.kind !== 'string') continue;
+
+            for (const { code, bytes } of splitCodes(part.bytes, text.font)) {
+                const width = text.font ? text.font.widthOf(code) : 0;
+                const isSpace = bytes.length === 1 && code === 32;
+                const trm = multiply([text.fontSize * text.horizontalScale, 0, 0, text.fontSize, 0, text.rise], multiply(tm, state.ctm));
+                const bbox = transformRect(trm, { x: 0, y: GLYPH_DESCENT, width: width / 1000, height: GLYPH_ASCENT - GLYPH_DESCENT });
+                elements.push({ glyph: { code, bytes, width, isSpace, matrix: trm, bbox } });
+
+                const tx = (width / 1000 * text.fontSize + text.charSpacing + (isSpace ? text.wordSpacing : 0)) * text.horizontalScale;
+                tm = multiply([1, 0, 0, 1, tx, 0], tm);
+            }
+        }
+        visitor.onShowText?.(op, elements, state);
+    };
+
+    for (const op of operations) {
+        const o = op.operands;
+        switch (op.operator) {
+            case 'q':
+                stack.push(state);
+                state = { ...state, text: { ...state.text } };
+                break;
+            case 'Q':
+                state = stack.pop() ?? state;
+                break;
+            case 'cm':
+                state = { ...state, ctm: multiply(matrixFrom(o), state.ctm) };
+                break;
+            case 'g':
+                state = { ...state, fill: { components: [num(o[0])] } };
+                break;
+            case 'rg':
+                state = { ...state, fill: { components: [num(o[0]), num(o[1]), num(o[2])] } };
+                break;
+            case 'k':
+                state = { ...state, fill: { components: [num(o[0]), num(o[1]), num(o[2]), num(o[3])] } };
+                break;
+            case 'sc':
+            case 'scn': {
+                const components = o.filter(x => x.kind === 'number').map(num);
+                if (components.length === 1 || components.length === 3 || components.length === 4) {
+                    state = { ...state, fill: { components } };
+                }
+                break;
+            }
+            case 'BT':
+                tm = IDENTITY;
+                tlm = IDENTITY;
+                break;
+            case 'Tc':
+                state.text.charSpacing = num(o[0]);
+                break;
+            case 'Tw':
+                state.text.wordSpacing = num(o[0]);
+                break;
+            case 'Tz':
+                state.text.horizontalScale = num(o[0]) / 100;
+                break;
+            case 'TL':
+                state.text.leading = num(o[0]);
+                break;
+            case 'Ts':
+                state.text.rise = num(o[0]);
+                break;
+            case 'Tf': {
+                const name = o[0]?.kind === 'name' ? o[0].value : null;
+                state.text.fontName = name;
+                state.text.font = name ? options.resolveFont(name) : null;
+                state.text.fontSize = num(o[1]);
+                break;
+            }
+            case 'Td':
+                moveLine(num(o[0]), num(o[1]));
+                break;
+            case 'TD':
+                state.text.leading = -num(o[1]);
+                moveLine(num(o[0]), num(o[1]));
+                break;
+            case 'Tm':
+                tlm = matrixFrom(o);
+                tm = tlm;
+                break;
+            case 'T*':
+                moveLine(0, -state.text.leading);
+                break;
+            case 'Tj':
+                show(op, o.slice(0, 1));
+                break;
+            case 'TJ':
+                show(op, o[0]?.kind === 'array' ? o[0].items : []);
+                break;
+            case "'":
+                moveLine(0, -state.text.leading);
+                show(op, o.slice(0, 1));
+                break;
+            case '"':
+                state.text.wordSpacing = num(o[0]);
+                state.text.charSpacing = num(o[1]);
+                moveLine(0, -state.text.leading);
+                show(op, o.slice(2, 3));
+                break;
+            case 'Do': {
+                const name = o[0]?.kind === 'name' ? o[0].value : null;
+                const placement = name ? options.resolveXObject?.(name) : null;
+                const bbox = placement
+                    ? transformRect(multiply(placement.matrix, state.ctm), placement.bbox)
+                    : transformRect(state.ctm, { x: 0, y: 0, width: 1, height: 1 });
+                visitor.onXObject?.(op, name, bbox, state);
+                break;
+            }
+            case 'BI':
+                visitor.onXObject?.(op, null, transformRect(state.ctm, { x: 0, y: 0, width: 1, height: 1 }), state);
+                break;
+        }
+        visitor.onOperation?.(op, state);
+    }
+}
@@ -0,0 +1,95 @@
+import type { Margins } from './layout';
+import type { Rect } from './matrix';
+
+/**
+ * The rectangle painted over old text, and the colour it is painted in. The
+ * colour can be sampled from the page around each match, so covers blend into
+ * tinted letterheads and off-white scans. Sampling needs the page rendered,
+ * which is platform-specific (see `src/background.ts` for the browser's).
+ */
+
+export interface CoverOptions {
+    /** `'auto'` matches the page around each cover; otherwise a colour such as "#ffffff". */
+    fill: 'auto' | string;
+    /** How far the cover reaches past the old text on each side, in points. */
+    padding: Margins;
+}
+
+export const DEFAULT_COVER: CoverOptions = { fill: 'auto', padding: { top: 3, right: 2, bottom: 2, left: 2 } };
+
+/** Red, green and blue from 0 to 1. */
+export type Rgb = [number, number, number];
+
+export const WHITE: Rgb = [1, 1, 1];
+
+/** One cover to sample around: a rectangle in PDF user space on a 0-based page. */
+export interface CoverArea {
+    pageIndex: number;
+    rect: Rect;
+}
+
+export interface BackgroundSampler {
+    /**
+     * The colour of the page just outside each area, from the original
+     * document `data`; null where nothing could be sampled.
+     */
+    sample(data: Uint8Array, areas: CoverArea[]): Promise<(Rgb | null)[]>;
+}
+
+/** Pixels in the shape of canvas `ImageData`: RGBA rows, top first. */
+export interface Pixels {
+    data: ArrayLike<number>;
+    width: number;
+    height: number;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+
+export function isHexColor(text: string): boolean {
+    return HEX_COLOR.test(text);
+}
+
+export function parseHexColor(text: string): Rgb | null {
+    const match = text.match(HEX_COLOR);
+    return match ? [1, 2, 3].map(i => parseInt(match[i], 16) / 255) as Rgb : null;
+}
+
+export function toHexColor(color: Rgb): string {
+    return `#${color.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function padRect(rect: Rect, padding: Margins): Rect {
+    return {
+        x: rect.x - padding.left,
+        y: rect.y - padding.bottom,
+        width: rect.width + padding.left + padding.right,
+        height: rect.height + padding.bottom + padding.top,
+    };
+}
+
+function median(values: number[]): number {
+    values.sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+}
+
+/**
+ * The median colour, channel by channel, of a `band` pixels wide ring just
+ * outside the box from `(left, top)` to `(right, bottom)` in pixels. The median
+ * ignores the odd stroke or letter the ring crosses. Null when the ring lies
+ * entirely off the image.
+ */
+export function borderColor(pixels: Pixels, left: number, top: number, right: number, bottom: number, band: number): Rgb | null {
+    const channels: number[][] = [[], [], []];
+    const x0 = Math.max(0, Math.floor(left) - band), x1 = Math.min(pixels.width, Math.ceil(right) + band);
+    const y0 = Math.max(0, Math.floor(top) - band), y1 = Math.min(pixels.height, Math.ceil(bottom) + band);
+    for (let y = y0; y < y1; y++) {
+        const inRows = y >= top && y < bottom;
+        for (let x = x0; x < x1; x++) {
+            if (inRows && x >= left && x < right) continue;
+            const i = (y * pixels.width + x) * 4;
+            for (let c = 0; c < 3; c++) channels[c].push(pixels.data[i + c]);
+        }
+    }
+    if (channels[0].length === 0) return null;
+    return channels.map(values => median(values) / 255) as Rgb;
+}
@@ -0,0 +1,100 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, type PDFFont } from 'pdf-lib';
+import { decodeBase64, encodeBase64 } from './base64';
+import type { FontChoice } from './replacement-font';
+
+/**
+ * A TrueType or OpenType font file picked by the user for the new text. It is
+ * kept in the config, so it travels with a profile.
+ */
+export interface CustomFont {
+    /** The font's full name, or its file name when it has none. */
+    name: string;
+    /** The font file, base64-encoded. */
+    data: string;
+}
+
+export class InvalidFontError extends Error {
+    readonly fileName: string;
+
+    constructor(fileName: string, reason: string) {
+        super(`"${fileName}" is not a usable font: ${reason}`);
+        this.name = 'InvalidFontError';
+        this.fileName = fileName;
+    }
+}
+
+/** Thrown when the new text has characters the font it would be drawn in lacks. */
+export class MissingCharactersError extends Error {
+    readonly characters: string[];
+
+    /** `font` names the font and, where it isn't obvious, why it was used. */
+    constructor(font: string, characters: string[]) {
+        super(`${font} can't draw ${characters.join(' ')}. Pick a font file that has them.`);
+        this.name = 'MissingCharactersError';
+        this.characters = characters;
+    }
+}
+
+function parseFont(fileName: string, bytes: Uint8Array) {
+    let font;
+    try {
+        font = fontkit.create(bytes);
+    } catch (e) {
+        throw new InvalidFontError(fileName, e instanceof Error ? e.message : String(e));
+    }
+    // Collections (.ttc) parse to a list of fonts, which pdf-lib can't embed.
+    if (typeof font.hasGlyphForCodePoint !== 'function') {
+        throw new InvalidFontError(fileName, "font collections aren't supported; pick a single TTF or OTF file.");
+    }
+    return font;
+}
+
+/** Reads a font file. Throws an `InvalidFontError` when it can't be used. */
+export function loadCustomFont(fileName: string, bytes: Uint8Array): CustomFont {
+    const font = parseFont(fileName, bytes);
+    return { name: font.fullName || font.postscriptName || fileName, data: encodeBase64(bytes) };
+}
+
+/** Embeds a custom font, keeping only the glyphs the document uses. */
+export function embedCustomFont(pdfDoc: PDFDocument, font: CustomFont): Promise<PDFFont> {
+    pdfDoc.registerFontkit(fontkit);
+    return pdfDoc.embedFont(decodeBase64(font.data), { subset: true });
+}
+
+/**
+ * The characters of `texts` that the chosen font can't draw, each listed once,
+ * in order of appearance. Standard fonts only cover WinAnsi, and so does
+ * `'auto'`, which falls back to one when the document's own font lacks a
+ * character. Line breaks are not drawn, so they are never missing.
+ */
+export async function missingCharacters(texts: string[], choice: FontChoice, customFont?: CustomFont | null): Promise<string[]> {
+    const characters = [...new Set([...texts.join('')])].filter(c => c !== '\n' && c !== '\r');
+    if (characters.length === 0) return [];
+
+    if (choice === 'custom') {
+        if (!customFont) return characters;
+        const font = parseFont(customFont.name, decodeBase64(customFont.data));
+        return characters.filter(c => !font.hasGlyphForCodePoint(c.codePointAt(0)!));
+    }
+
+    const standard = await (await PDFDocument.create()).embedFont(choice === 'auto' ? StandardFonts.Helvetica : choice);
+    return unencodableCharacters(standard, characters);
+}
+
+/**
+ * The characters of `texts` an embedded font can't encode, each listed once.
+ * Only standard fonts ever lack any; custom fonts draw a blank glyph instead,
+ * so `missingCharacters` checks those.
+ */
+export function unencodableCharacters(font: PDFFont, texts: string[]): string[] {
+    const characters = [...new Set([...texts.join('')])].filter(c => c !== '\n' && c !== '\r');
+    return characters.filter(c => {
+        try {
+            font.encodeText(c);
+            return false;
+        } catch {
+            return true;
+        }
+    });
+}
@@ -0,0 +1,238 @@
+import {
+    PDFArray,
+    PDFDict,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFRef,
+    PDFString,
+    StandardFonts,
+    componentsToColor,
+    degrees,
+    drawRectangle,
+    drawText,
+    rgb,
+    type PDFDocument,
+    type PDFFont,
+} from 'pdf-lib';
+import { MissingCharactersError, unencodableCharacters } from './custom-font';
+import type { Match } from './pdf-utils';
+import { wrapLines } from './text-layout';
+import { hitText, searchText, type PreparedQuery } from './text-match';
+
+/**
+ * Search and replace in text kept outside the page content: the values of
+ * AcroForm text fields and the contents of FreeText annotations.
+ */
+
+/** A form text field, by its fully qualified name, or a FreeText annotation, by its pdf.js id (e.g. "12R"). */
+export type FormTextTarget =
+    | { kind: 'field'; name: string }
+    | { kind: 'annotation'; ref: string };
+
+/**
+ * Where a match's text is stored when it isn't in the page content: the
+ * target, its whole text as searched, and the matched range `[start, end)`.
+ */
+export type TextSource = FormTextTarget & {
+    value: string;
+    start: number;
+    end: number;
+};
+
+export class FieldValueTooLongError extends Error {
+    readonly fieldName: string;
+    readonly maxLength: number;
+
+    constructor(fieldName: string, maxLength: number, length: number) {
+        super(`The new value of form field "${fieldName}" has ${length} characters; the field allows at most ${maxLength}.`);
+        this.name = 'FieldValueTooLongError';
+        this.fieldName = fieldName;
+        this.maxLength = maxLength;
+    }
+}
+
+// pdf.js's AnnotationType.FREETEXT.
+const FREE_TEXT = 3;
+const REF_ID = /^(\d+)R(\d*)$/;
+
+/** Space between a FreeText annotation's edge and its text, in points. */
+const PADDING = 2;
+
+function targetOf(annotation: any): (FormTextTarget & { value: string }) | null {
+    if (annotation.fieldType === 'Tx' && annotation.fieldName && typeof annotation.fieldValue === 'string') {
+        return { kind: 'field', name: annotation.fieldName, value: annotation.fieldValue };
+    }
+    if (annotation.annotationType === FREE_TEXT && REF_ID.test(annotation.id) && annotation.contentsObj?.str) {
+        return { kind: 'annotation', ref: annotation.id, value: annotation.contentsObj.str };
+    }
+    return null;
+}
+
+/** The field values and FreeText contents among a page's pdf.js annotation data. */
+export function formTexts(annotations: any[]): string[] {
+    return annotations.flatMap(annotation => targetOf(annotation)?.value ?? []);
+}
+
+/**
+ * Runs the queries against the text fields and FreeText annotations of one
+ * page, given its pdf.js annotation data. Returns one list of matches per
+ * query; each match's box is the widget or annotation rectangle.
+ */
+export function findFormMatches(annotations: any[], pageIndex: number, queries: PreparedQuery[]): Match[][] {
+    const results: Match[][] = queries.map(() => []);
+    for (const annotation of annotations) {
+        const target = targetOf(annotation);
+        if (!target) continue;
+        const [x1, y1, x2, y2] = annotation.rect as number[];
+
+        searchText(target.value, queries).forEach((hits, queryIdx) => {
+            for (const hit of hits) {
+                results[queryIdx].push({
+                    pageIndex,
+                    x: x1,
+                    y: y1,
+                    width: x2 - x1,
+                    height: y2 - y1,
+                    text: hitText(queries[queryIdx], target.value, hit),
+                    score: hit.score,
+                    source: { ...target, start: hit.first, end: hit.last + 1 },
+                });
+            }
+        });
+    }
+    return results;
+}
+
+/** Whether two sources claim overlapping text of the same field or annotation. */
+export function sourcesOverlap(a: TextSource, b: TextSource): boolean {
+    const sameTarget = a.kind === 'field' && b.kind === 'field'
+        ? a.name === b.name
+        : a.kind === 'annotation' && b.kind === 'annotation' && a.ref === b.ref;
+    return sameTarget && a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Replaces matches that have a `source` by editing the text where it is
+ * stored. Fields get a new value and FreeText annotations new contents, both
+ * drawn anew in `font`, or Helvetica when none is chosen. Throws a
+ * `MissingCharactersError` when that font can't draw the new text.
+ */
+export async function replaceFormText(pdfDoc: PDFDocument, matches: Match[], newText: string, font: PDFFont | null = null): Promise<void> {
+    // A field with widgets on several pages gives one match per widget for the same text.
+    const edits = new Map<string, { source: TextSource; changes: { start: number; end: number; text: string }[] }>();
+    for (const match of matches) {
+        const source = match.source!;
+        const key = source.kind === 'field' ? `field:${source.name}` : `annotation:${source.ref}`;
+        const entry = edits.get(key) ?? { source, changes: [] };
+        edits.set(key, entry);
+        if (entry.changes.some(change => change.start < source.end && source.start < change.end)) continue;
+        entry.changes.push({ start: source.start, end: source.end, text: match.replacement ?? newText });
+    }
+
+    const values = [...edits.values()].map(({ source, changes }) => {
+        // Later ranges first, so earlier offsets stay valid.
+        let value = source.value;
+        for (const { start, end, text } of changes.sort((a, b) => b.start - a.start)) {
+            value = value.slice(0, start) + text + value.slice(end);
+        }
+        return { source, value };
+    });
+    if (values.length === 0) return;
+
+    const drawFont = font ?? await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const missing = unencodableCharacters(drawFont, values.map(({ value }) => value));
+    if (missing.length > 0) throw new MissingCharactersError(font ? font.name : 'Helvetica, used for form fields and annotations,', missing);
+
+    for (const { source, value } of values) {
+        if (source.kind === 'field') {
+            setFieldText(pdfDoc, source.name, value, drawFont);
+        } else {
+            setFreeTextContents(pdfDoc, source.ref, value, drawFont);
+        }
+    }
+}
+
+function setFieldText(pdfDoc: PDFDocument, name: string, value: string, font: PDFFont) {
+    const field = pdfDoc.getForm().getTextField(name);
+    // A single-line field can't show line breaks, so address lines are joined.
+    const text = field.isMultiline() ? value : value.replace(/\s*(\r\n|\r|\n)\s*/g, ', ');
+    const maxLength = field.getMaxLength();
+    if (maxLength !== undefined && text.length > maxLength) throw new FieldValueTooLongError(name, maxLength, text.length);
+    field.setText(text);
+    field.updateAppearances(font);
+}
+
+function setFreeTextContents(pdfDoc: PDFDocument, ref: string, value: string, font: PDFFont) {
+    const [, objectNumber, generation] = ref.match(REF_ID)!;
+    const annotation = pdfDoc.context.lookup(PDFRef.of(Number(objectNumber), Number(generation || 0)), PDFDict);
+    annotation.set(PDFName.of('Contents'), PDFHexString.fromText(value));
+    // Viewers that understand rich text show it instead of Contents.
+    annotation.delete(PDFName.of('RC'));
+    const appearance = freeTextAppearance(pdfDoc, annotation, value, font);
+    annotation.set(PDFName.of('AP'), pdfDoc.context.obj({ N: appearance }));
+}
+
+/**
+ * Draws a FreeText annotation's text in `font`, at the size and colour of
+ * its default appearance string, wrapped to its rectangle and honouring its
+ * alignment, border width and background colour.
+ */
+function freeTextAppearance(pdfDoc: PDFDocument, annotation: PDFDict, value: string, font: PDFFont): PDFRef {
+    const { width, height } = annotation.lookup(PDFName.of('Rect'), PDFArray).asRectangle();
+    const da = annotation.lookupMaybe(PDFName.of('DA'), PDFString, PDFHexString)?.decodeText() ?? '';
+    // A size of 0 means "auto" in a DA string; a fixed size is good enough here.
+    const size = Number(da.match(/([\d.]+)\s+Tf/)?.[1]) || 12;
+    const colorMatch = da.match(/((?:[\d.]+\s+){1,4})(?:g|rg|k)\b/);
+    const color = (colorMatch && componentsToColor(colorMatch[1].trim().split(/\s+/).map(Number))) || rgb(0, 0, 0);
+    const align = annotation.lookupMaybe(PDFName.of('Q'), PDFNumber)?.asNumber() ?? 0;
+    const background = annotation.lookupMaybe(PDFName.of('C'), PDFArray)?.asArray()
+        .map(n => n instanceof PDFNumber ? n.asNumber() : 0);
+    const borderStyle = annotation.lookupMaybe(PDFName.of('BS'), PDFDict);
+    const borderWidth = borderStyle?.lookupMaybe(PDFName.of('W'), PDFNumber)?.asNumber()
+        ?? annotation.lookupMaybe(PDFName.of('Border'), PDFArray)?.lookupMaybe(2, PDFNumber)?.asNumber()
+        ?? 1;
+
+    const fontName = 'F1';
+    const operators = [];
+    const fill = background && background.length > 0 ? componentsToColor(background) : undefined;
+    if (fill || borderWidth > 0) {
+        operators.push(...drawRectangle({
+            x: borderWidth / 2,
+            y: borderWidth / 2,
+            width: width - borderWidth,
+            height: height - borderWidth,
+            borderWidth,
+            color: fill,
+            borderColor: borderWidth > 0 ? color : undefined,
+            rotate: degrees(0),
+            xSkew: degrees(0),
+            ySkew: degrees(0),
+        }));
+    }
+
+    const inset = borderWidth + PADDING;
+    const lineHeight = size * 1.2;
+    let baseline = height - inset - font.heightAtSize(size, { descender: false });
+    for (const line of wrapLines(value, width - 2 * inset, text => font.widthOfTextAtSize(text, size))) {
+        const lineWidth = font.widthOfTextAtSize(line, size);
+        const x = align === 1 ? (width - lineWidth) / 2 : align === 2 ? width - inset - lineWidth : inset;
+        operators.push(...drawText(font.encodeText(line), {
+            color,
+            font: fontName,
+            size,
+            x,
+            y: baseline,
+            rotate: degrees(0),
+            xSkew: degrees(0),
+            ySkew: degrees(0),
+        }));
+        baseline -= lineHeight;
+    }
+
+    const stream = pdfDoc.context.formXObject(operators, {
+        BBox: [0, 0, width, height],
+        Resources: { Font: { [fontName]: font.ref } },
+    });
+    return pdfDoc.context.register(stream);
+}
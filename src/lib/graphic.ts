@@ -0,0 +1,158 @@
+import {
+    clip,
+    concatTransformationMatrix,
+    drawObject,
+    endPath,
+    fill,
+    popGraphicsState,
+    pushGraphicsState,
+    rectangle,
+    rgb,
+    setFillingColor,
+    type PDFDocument,
+    type PDFImage,
+    type PDFPage,
+} from 'pdf-lib';
+import qrcode from 'qrcode-generator';
+import { decodeBase64, encodeBase64 } from './base64';
+import { rotation, type Rect } from './matrix';
+
+/**
+ * Replacing matches with a picture instead of text: a logo or other image
+ * file, or a QR code made from text. The picture is fitted into each match's
+ * box. SVG files are turned into PNG before they get here (see
+ * `src/svg-image.ts`), as PDFs can't hold SVG.
+ */
+
+export type GraphicSource =
+    | {
+        kind: 'image';
+        /** The file name, for display. */
+        name: string;
+        format: 'png' | 'jpg';
+        /** The image file, base64-encoded. */
+        data: string;
+    }
+    | { kind: 'qr'; text: string };
+
+/**
+ * How a picture fills a box: whole and as large as fits (`'contain'`), filling
+ * the box and cropped to it (`'cover'`), or distorted to the box's shape
+ * (`'stretch'`). The first two keep the picture centred.
+ */
+export type ImageFit = 'contain' | 'cover' | 'stretch';
+
+export interface ReplacementGraphic {
+    source: GraphicSource;
+    fit: ImageFit;
+}
+
+export class InvalidImageError extends Error {
+    readonly fileName: string;
+
+    constructor(fileName: string, reason: string) {
+        super(`"${fileName}" can't be used as an image: ${reason}`);
+        this.name = 'InvalidImageError';
+        this.fileName = fileName;
+    }
+}
+
+// Light modules around a QR code, which scanners need to find it.
+const QR_QUIET_ZONE = 2;
+// Bytes the largest QR code holds at the error correction level used below.
+const QR_CAPACITY = 2331;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((b, i) => bytes[i] === b);
+
+/** Reads a PNG or JPEG file. Throws an `InvalidImageError` for anything else. */
+export function loadImageFile(fileName: string, bytes: Uint8Array): GraphicSource {
+    const format = startsWith(bytes, PNG_SIGNATURE) ? 'png' : startsWith(bytes, JPEG_SIGNATURE) ? 'jpg' : null;
+    if (!format) throw new InvalidImageError(fileName, "it isn't a PNG or JPEG file.");
+    return { kind: 'image', name: fileName, format, data: encodeBase64(bytes) };
+}
+
+/** Whether `text` is short enough for a QR code. */
+export function fitsQrCode(text: string): boolean {
+    return new TextEncoder().encode(text).length <= QR_CAPACITY;
+}
+
+/** The dark modules of a QR code for `text`, row by row from the top. */
+export function qrModules(text: string): boolean[][] {
+    const bytes = new TextEncoder().encode(text);
+    if (bytes.length > QR_CAPACITY) throw new Error(`Text of ${bytes.length} bytes is too long for a QR code; the limit is ${QR_CAPACITY}.`);
+    // Type 0 picks the smallest code that holds the text; M corrects about 15% damage.
+    const code = qrcode(0, 'M');
+    // The library keeps only the low byte of each character, so it gets the
+    // UTF-8 bytes one per character; scanners read byte data as UTF-8.
+    code.addData(String.fromCharCode(...bytes), 'Byte');
+    code.make();
+    const size = code.getModuleCount();
+    return Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, col) => code.isDark(row, col)));
+}
+
+/** Where a picture with the given width-to-height ratio goes in `box`. May overflow the box for `'cover'`. */
+export function fitRect(box: Rect, aspect: number, fit: ImageFit): Rect {
+    if (fit === 'stretch' || !(aspect > 0)) return box;
+    const boxAspect = box.width / box.height;
+    const byWidth = fit === 'contain' ? aspect >= boxAspect : aspect < boxAspect;
+    const width = byWidth ? box.width : box.height * aspect;
+    const height = byWidth ? box.width / aspect : box.height;
+    return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+}
+
+/**
+ * Draws a graphic into `box`, which is in the frame rotated by `angle`
+ * degrees from the page, as for text. `images` keeps embedded image files,
+ * so a document holds each only once.
+ */
+export async function drawGraphic(
+    pdfDoc: PDFDocument,
+    page: PDFPage,
+    graphic: ReplacementGraphic,
+    box: Rect,
+    angle: number,
+    images: Map<string, PDFImage>,
+): Promise<void> {
+    const { source, fit } = graphic;
+    const operators = [pushGraphicsState(), concatTransformationMatrix(...rotation(angle))];
+    // Only 'cover' draws past the box, and only the box may show.
+    if (fit === 'cover') operators.push(rectangle(box.x, box.y, box.width, box.height), clip(), endPath());
+
+    if (source.kind === 'image') {
+        let image = images.get(source.data);
+        if (!image) {
+            const bytes = decodeBase64(source.data);
+            image = source.format === 'png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+            images.set(source.data, image);
+        }
+        const placed = fitRect(box, image.width / image.height, fit);
+        const name = page.node.newXObject('Image', image.ref);
+        operators.push(concatTransformationMatrix(placed.width, 0, 0, placed.height, placed.x, placed.y), drawObject(name));
+    } else {
+        const modules = qrModules(source.text);
+        const count = modules.length + 2 * QR_QUIET_ZONE;
+        const placed = fitRect(box, 1, fit);
+        const cellWidth = placed.width / count;
+        const cellHeight = placed.height / count;
+
+        operators.push(setFillingColor(rgb(1, 1, 1)), rectangle(placed.x, placed.y, placed.width, placed.height), fill());
+        operators.push(setFillingColor(rgb(0, 0, 0)));
+        modules.forEach((row, r) => {
+            const y = placed.y + (count - QR_QUIET_ZONE - r - 1) * cellHeight;
+            // Runs of dark modules are drawn as one rectangle.
+            for (let c = 0; c < row.length; c++) {
+                if (!row[c]) continue;
+                const start = c;
+                while (c + 1 < row.length && row[c + 1]) c++;
+                operators.push(rectangle(placed.x + (QR_QUIET_ZONE + start) * cellWidth, y, (c - start + 1) * cellWidth, cellHeight));
+            }
+        });
+        operators.push(fill());
+    }
+
+    operators.push(popGraphicsState());
+    page.pushOperators(...operators);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { alignPages, NO_TRANSFORM, PAPER_SIZES, placePage, type PageTransform } from './layout';
+import { applyToPoint, type Matrix } from './matrix';
+
+const LETTER = { x: 0, y: 0, width: 612, height: 792 };
+
+/** Where `matrix` puts a point, rounded to hide floating point noise. */
+const place = (matrix: Matrix, x: number, y: number) => applyToPoint(matrix, x, y).map(n => Math.round(n * 100) / 100 || 0);
+
+const transform = (changes: Partial<PageTransform>): PageTransform => ({ ...NO_TRANSFORM, ...changes });
+
+describe('placePage', () => {
+    it('leaves a page alone without a transform', () => {
+        expect(placePage(LETTER, 0, NO_TRANSFORM)).toEqual({ matrix: [1, 0, 0, 1, 0, 0], width: 612, height: 792 });
+    });
+
+    it('moves a page whose box does not start at the origin', () => {
+        const { matrix, width, height } = placePage({ x: 10, y: 20, width: 100, height: 200 }, 0, NO_TRANSFORM);
+        expect([width, height]).toEqual([100, 200]);
+        expect(place(matrix, 10, 20)).toEqual([0, 0]);
+    });
+
+    it('turns a page clockwise', () => {
+        const { matrix, width, height } = placePage(LETTER, 0, transform({ rotate: 90 }));
+        expect([width, height]).toEqual([792, 612]);
+        // The top left corner ends up at the top right.
+        expect(place(matrix, 0, 792)).toEqual([792, 612]);
+    });
+
+    it('shows a page with /Rotate the way up it is shown', () => {
+        const { matrix, width, height } = placePage(LETTER, 90, NO_TRANSFORM);
+        expect([width, height]).toEqual([792, 612]);
+        // Shown turned clockwise, the bottom left corner is at the top left.
+        expect(place(matrix, 0, 0)).toEqual([0, 612]);
+    });
+
+    it('crops the edges of the page as shown', () => {
+        const { matrix, width, height } = placePage(LETTER, 0, transform({ crop: { top: 10, right: 20, bottom: 30, left: 40 } }));
+        expect([width, height]).toEqual([552, 752]);
+        expect(place(matrix, 40, 30)).toEqual([0, 0]);
+    });
+
+    it('shifts content in screen terms', () => {
+        const { matrix } = placePage(LETTER, 0, NO_TRANSFORM, { x: 5, y: 10 });
+        expect(place(matrix, 0, 0)).toEqual([5, -10]);
+    });
+
+    it('deskews about the page centre, keeping the page size', () => {
+        const { matrix, width, height } = placePage(LETTER, 0, transform({ deskew: 2 }));
+        expect([width, height]).toEqual([612, 792]);
+        expect(place(matrix, 306, 396)).toEqual([306, 396]);
+        expect(place(matrix, 306, 792)[0]).toBeGreaterThan(306);
+    });
+
+    it('scales to fit the paper, centred and keeping the orientation', () => {
+        const { matrix, width, height } = placePage(LETTER, 0, transform({ fitTo: 'A4' }));
+        expect([width, height]).toEqual(PAPER_SIZES.A4);
+        const scale = 595.28 / 612;
+        expect(place(matrix, 0, 0)).toEqual([0, Math.round((841.89 - 792 * scale) / 2 * 100) / 100]);
+
+        const landscape = placePage({ x: 0, y: 0, width: 792, height: 612 }, 0, transform({ fitTo: 'A4' }));
+        expect([landscape.width, landscape.height]).toEqual([841.89, 595.28]);
+    });
+});
+
+describe('alignPages', () => {
+    it('centres content, or places it at the margins', () => {
+        const page = { view: LETTER, rotation: 0, content: { x: 100, y: 500, width: 200, height: 100 } };
+        expect(alignPages([page], { mode: 'center', left: 0, top: 0 })).toEqual([{ x: 106, y: 154 }]);
+        expect(alignPages([page], { mode: 'margin', left: 72, top: 72 })).toEqual([{ x: -28, y: -120 }]);
+    });
+
+    it('skips blank pages', () => {
+        expect(alignPages([{ view: LETTER, rotation: 0, content: null }], { mode: 'center', left: 0, top: 0 })).toEqual([null]);
+    });
+
+    it('measures content on the page as it comes out of the transform', () => {
+        const page = { view: LETTER, rotation: 0, content: { x: 0, y: 0, width: 100, height: 50 } };
+        // Turned clockwise onto a 792 × 612 page, the content is 50 wide and 100 tall at the top left.
+        expect(alignPages([page], { mode: 'margin', left: 10, top: 10 }, transform({ rotate: 90 }))).toEqual([{ x: 10, y: 10 }]);
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Layout corrections for scanned pages: rotating, cropping, deskewing and
+ * scaling them, and how far to move each page's content so it is centred, or
+ * sits at a given margin.
+ */
+import { multiply, rotation, transformRect, type Matrix, type Rect } from './matrix';
+
+/** A content shift in screen terms: positive x moves right, positive y moves down. */
+export interface PageOffset {
+    x: number;
+    y: number;
+}
+
+export interface AutoAlignOptions {
+    /** Centre the content on the page, or put its top-left corner at the margins. */
+    mode: 'center' | 'margin';
+    /** Target left and top margins in points, for `'margin'`. */
+    left: number;
+    top: number;
+}
+
+export const DEFAULT_AUTO_ALIGN: AutoAlignOptions = { mode: 'center', left: 72, top: 72 };
+
+export const NO_OFFSET: PageOffset = { x: 0, y: 0 };
+
+export function addOffsets(...offsets: (PageOffset | null | undefined)[]): PageOffset {
+    return offsets.reduce<PageOffset>((sum, o) => o ? { x: sum.x + o.x, y: sum.y + o.y } : sum, NO_OFFSET);
+}
+
+export function isZeroOffset(offset: PageOffset | null | undefined): boolean {
+    return !offset || (offset.x === 0 && offset.y === 0);
+}
+
+/** The smallest rectangle covering all the given ones, or null when there are none. */
+export function unionBoxes(boxes: (Rect | null)[]): Rect | null {
+    const present = boxes.filter((box): box is Rect => box !== null);
+    if (present.length === 0) return null;
+    const left = Math.min(...present.map(r => r.x));
+    const bottom = Math.min(...present.map(r => r.y));
+    const right = Math.max(...present.map(r => r.x + r.width));
+    const top = Math.max(...present.map(r => r.y + r.height));
+    return { x: left, y: bottom, width: right - left, height: top - bottom };
+}
+
+/**
+ * The shift that moves `content` to where `options` wants it on `page`. Both
+ * are in PDF user space; the result is in screen terms, rounded to a tenth of
+ * a point.
+ */
+export function alignOffset(content: Rect, page: Rect, options: AutoAlignOptions): PageOffset {
+    const round = (n: number) => Math.round(n * 10) / 10 || 0;
+    if (options.mode === 'center') {
+        return {
+            x: round(page.x + page.width / 2 - (content.x + content.width / 2)),
+            y: round(content.y + content.height / 2 - (page.y + page.height / 2)),
+        };
+    }
+    return {
+        x: round(page.x + options.left - content.x),
+        y: round(content.y + content.height - (page.y + page.height - options.top)),
+    };
+}
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+export type PaperSize = 'A4' | 'Letter';
+
+/** Portrait width and height in points. */
+export const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+    A4: [595.28, 841.89],
+    Letter: [612, 792],
+};
+
+/** Amounts trimmed from each edge of a page as it is shown, in points. */
+export interface Margins {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * Whole-page corrections applied in layout mode, in this order: crop, rotate,
+ * deskew, then the page's shift, then scaling to fit.
+ */
+export interface PageTransform {
+    /** Trimmed from the page as shown, before it is turned. */
+    crop: Margins;
+    /** Clockwise quarter turns. */
+    rotate: QuarterTurn;
+    /** Small clockwise correction in degrees, about the page centre; the page keeps its size. */
+    deskew: number;
+    /** Scale the page to fit this paper size, keeping its orientation; null keeps the page's own size. */
+    fitTo: PaperSize | null;
+}
+
+export const NO_CROP: Margins = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const NO_TRANSFORM: PageTransform = { crop: NO_CROP, rotate: 0, deskew: 0, fitTo: null };
+
+export function isIdentityTransform(transform: PageTransform | null | undefined): boolean {
+    if (!transform) return true;
+    const { crop } = transform;
+    return transform.rotate === 0 && transform.deskew === 0 && transform.fitTo === null &&
+        crop.top === 0 && crop.right === 0 && crop.bottom === 0 && crop.left === 0;
+}
+
+/**
+ * Where a page's content goes: `matrix` maps the original page's user space
+ * onto a new, unrotated page of `width` × `height`.
+ */
+export interface PagePlacement {
+    matrix: Matrix;
+    width: number;
+    height: number;
+}
+
+const translation = (x: number, y: number): Matrix => [1, 0, 0, 1, x, y];
+
+/** Turns `rect` counter-clockwise by `degrees`, then moves its bounds back to the origin. */
+function turn(degrees: number, rect: Rect): PagePlacement {
+    const box = transformRect(rotation(degrees), rect);
+    return { matrix: multiply(rotation(degrees), translation(-box.x, -box.y)), width: box.width, height: box.height };
+}
+
+/**
+ * The page after cropping, turning and deskewing, but before any shift or
+ * scaling. `view` is the page's visible box and `pageRotation` its /Rotate;
+ * the new page shows the content the same way up without needing one.
+ */
+export function orientPage(view: Rect, pageRotation: number, transform: PageTransform): PagePlacement {
+    // Upright, as the page is shown.
+    const shown = turn(-pageRotation, view);
+
+    const { crop } = transform;
+    const width = Math.max(1, shown.width - crop.left - crop.right);
+    const height = Math.max(1, shown.height - crop.top - crop.bottom);
+    const cropped = multiply(shown.matrix, translation(-crop.left, -crop.bottom));
+
+    const turned = turn(-transform.rotate, { x: 0, y: 0, width, height });
+    const matrix = multiply(cropped, turned.matrix);
+    if (transform.deskew === 0) return { ...turned, matrix };
+
+    const [cx, cy] = [turned.width / 2, turned.height / 2];
+    const skewed = multiply(multiply(multiply(matrix, translation(-cx, -cy)), rotation(-transform.deskew)), translation(cx, cy));
+    return { matrix: skewed, width: turned.width, height: turned.height };
+}
+
+/** The full placement of a page: `orientPage`, then `offset` (in screen terms), then fitting to paper. */
+export function placePage(view: Rect, pageRotation: number, transform: PageTransform, offset: PageOffset = NO_OFFSET): PagePlacement {
+    const oriented = orientPage(view, pageRotation, transform);
+    const shifted = multiply(oriented.matrix, translation(offset.x, -offset.y));
+    if (!transform.fitTo) return { ...oriented, matrix: shifted };
+
+    const [short, long] = PAPER_SIZES[transform.fitTo];
+    const [width, height] = oriented.width > oriented.height ? [long, short] : [short, long];
+    const scale = Math.min(width / oriented.width, height / oriented.height);
+    const scaled = multiply(shifted, [scale, 0, 0, scale, 0, 0]);
+    const margin = translation((width - oriented.width * scale) / 2, (height - oriented.height * scale) / 2);
+    return { matrix: multiply(scaled, margin), width, height };
+}
+
+/** What auto-align measured on a page, in the page's own user space. */
+export interface PageContent {
+    view: Rect;
+    rotation: number;
+    /** The bounds of everything on the page, or null when it is blank. */
+    content: Rect | null;
+}
+
+/**
+ * Auto-align shifts for each page once `transform` has been applied, so the
+ * content is centred or placed on the page as it will come out.
+ */
+export function alignPages(pages: PageContent[], options: AutoAlignOptions, transform: PageTransform = NO_TRANSFORM): (PageOffset | null)[] {
+    return pages.map(({ view, rotation: pageRotation, content }) => {
+        if (!content) return null;
+        const oriented = orientPage(view, pageRotation, transform);
+        const page = { x: 0, y: 0, width: oriented.width, height: oriented.height };
+        return alignOffset(transformRect(oriented.matrix, content), page, options);
+    });
+}
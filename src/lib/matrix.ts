@@ -0,0 +1,84 @@
+/**
+ * PDF affine matrices in [a b c d e f] form, as used by `cm` and `Tm`.
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Returns m1 × m2, i.e. the transform that applies m1 first and then m2.
+ */
+export function multiply(m1: Matrix, m2: Matrix): Matrix {
+    return [
+        m1[0] * m2[0] + m1[1] * m2[2],
+        m1[0] * m2[1] + m1[1] * m2[3],
+        m1[2] * m2[0] + m1[3] * m2[2],
+        m1[2] * m2[1] + m1[3] * m2[3],
+        m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+        m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+    ];
+}
+
+/**
+ * Rotation about the origin, counter-clockwise in degrees. Quarter turns are
+ * exact, so boxes rotated by them round-trip without drift.
+ */
+export function rotation(degrees: number): Matrix {
+    const turns = ((degrees % 360) + 360) % 360;
+    if (turns % 90 === 0) {
+        const [cos, sin] = [[1, 0], [0, 1], [-1, 0], [0, -1]][turns / 90];
+        return [cos, sin, -sin, cos, 0, 0];
+    }
+    const radians = degrees * Math.PI / 180;
+    return [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0];
+}
+
+export function invert(m: Matrix): Matrix | null {
+    const det = m[0] * m[3] - m[1] * m[2];
+    if (Math.abs(det) < 1e-12) return null;
+    return [
+        m[3] / det,
+        -m[1] / det,
+        -m[2] / det,
+        m[0] / det,
+        (m[2] * m[5] - m[3] * m[4]) / det,
+        (m[1] * m[4] - m[0] * m[5]) / det,
+    ];
+}
+
+export function applyToPoint(m: Matrix, x: number, y: number): [number, number] {
+    return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Axis-aligned bounding box of a rectangle after transformation by m.
+ */
+export function transformRect(m: Matrix, rect: Rect): Rect {
+    const corners = [
+        applyToPoint(m, rect.x, rect.y),
+        applyToPoint(m, rect.x + rect.width, rect.y),
+        applyToPoint(m, rect.x, rect.y + rect.height),
+        applyToPoint(m, rect.x + rect.width, rect.y + rect.height),
+    ];
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width &&
+        a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function rectContainsPoint(rect: Rect, x: number, y: number): boolean {
+    return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
@@ -0,0 +1,54 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+
+/**
+ * OCR for pages without a text layer, e.g. image-only scans. Recognition
+ * itself is platform-specific (see `src/ocr.ts` for the browser's); the words
+ * it finds are turned into pdf.js-style text items, so they are searched,
+ * boxed and replaced exactly like a PDF's own text.
+ */
+
+/** A recognised word, in PDF user space. */
+export interface OcrWord {
+    text: string;
+    /** Start of the word's baseline. */
+    x: number;
+    y: number;
+    /** Direction of the baseline in degrees, counter-clockwise. */
+    rotation: number;
+    /** Length along the baseline. */
+    width: number;
+    /** Height above the baseline. */
+    height: number;
+}
+
+export interface OcrEngine {
+    /** Recognises the words on a page, as lines in reading order. */
+    recognize(page: PDFPageProxy): Promise<OcrWord[][]>;
+}
+
+/** Where a page's text came from: its text layer, OCR, or nowhere. */
+export type TextOrigin = 'pdf' | 'ocr' | 'none';
+
+/** Whether pdf.js found any text on a page. */
+export function hasTextLayer(items: any[]): boolean {
+    return items.some(item => typeof item.str === 'string' && item.str.trim());
+}
+
+/**
+ * Text items shaped like pdf.js's for recognised words: one per word, with a
+ * space after all but the last word of a line and a line end after the last.
+ */
+export function ocrTextItems(lines: OcrWord[][]): any[] {
+    return lines.flatMap(words => words.map((word, i) => {
+        const radians = word.rotation * Math.PI / 180;
+        const cos = Math.cos(radians), sin = Math.sin(radians);
+        const last = i === words.length - 1;
+        return {
+            str: last ? word.text : `${word.text} `,
+            transform: [word.height * cos, word.height * sin, -word.height * sin, word.height * cos, word.x, word.y],
+            width: word.width,
+            height: word.height,
+            hasEOL: last,
+        };
+    }));
+}
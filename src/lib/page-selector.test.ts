@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidPageSelectorError, parsePageSelector, resolvePages, selectPages } from './page-selector';
+
+const select = (expression: string, pageCount: number) => selectPages(parsePageSelector(expression), pageCount);
+
+describe('selectPages', () => {
+    it('picks pages, ranges and pages counted from the end', () => {
+        expect(select('1,3-4', 5)).toEqual([0, 2, 3]);
+        expect(select('-1', 5)).toEqual([4]);
+        expect(select('4-last', 5)).toEqual([3, 4]);
+        expect(select('first, 2-last', 3)).toEqual([0, 1, 2]);
+    });
+
+    it('picks odd, even and all pages', () => {
+        expect(select('odd', 5)).toEqual([0, 2, 4]);
+        expect(select('EVEN', 5)).toEqual([1, 3]);
+        expect(select('all', 3)).toEqual([0, 1, 2]);
+    });
+
+    it('sorts and drops duplicates', () => {
+        expect(select('3,1-2,2,odd', 3)).toEqual([0, 1, 2]);
+    });
+
+    it('rejects pages the document does not have', () => {
+        expect(() => select('4', 3)).toThrow('Page "4" is out of range: the document has 3 pages.');
+        expect(() => select('-2', 1)).toThrow('the document has 1 page.');
+    });
+
+    it('rejects a range that runs backwards once resolved', () => {
+        expect(() => select('3-last', 2)).toThrow(InvalidPageSelectorError);
+    });
+});
+
+describe('parsePageSelector', () => {
+    it.each([
+        ['', 'Enter at least one page.'],
+        [' , ', 'Enter at least one page.'],
+        ['0', '"0" is not a page number.'],
+        ['abc', '"abc" is not a page, range, odd, even or all.'],
+        ['1-2-3', '"1-2-3" is not a page, range, odd, even or all.'],
+        ['5-3', 'The range "5-3" runs backwards.'],
+        ['-2-last', '"-2-last" is not a page, range, odd, even or all.'],
+    ])('rejects %j', (expression, message) => {
+        expect(() => parsePageSelector(expression)).toThrow(new InvalidPageSelectorError(message));
+    });
+});
+
+describe('resolvePages', () => {
+    it('picks every page for an empty expression', () => {
+        expect(resolvePages('  ', 3)).toEqual([0, 1, 2]);
+    });
+
+    it('resolves an expression against the page count', () => {
+        expect(resolvePages('2,last', 4)).toEqual([1, 3]);
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Page selector expressions such as "1,3-5,odd,last,-2": a comma-separated
+ * list of terms, each of which is
+ *
+ * - a page number, 1-based (`3`), or counted from the end when negative
+ *   (`-1` is the last page, `-2` the one before it);
+ * - `first` or `last`;
+ * - a range of those, inclusive (`3-5`, `2-last`);
+ * - `odd`, `even` or `all`.
+ *
+ * Expressions are parsed once and resolved against each document's page count.
+ */
+
+type PageRef = number | 'first' | 'last';
+
+type Term =
+    | { kind: 'range'; from: PageRef; to: PageRef; source: string }
+    | { kind: 'odd' | 'even' | 'all' };
+
+export interface PageSelector {
+    terms: Term[];
+}
+
+export class InvalidPageSelectorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidPageSelectorError';
+    }
+}
+
+const REF = String.raw`(\d+|first|last)`;
+const RANGE = new RegExp(String.raw`^${REF}\s*-\s*${REF}$`);
+
+function parseRef(text: string): PageRef {
+    if (text === 'first' || text === 'last') return text;
+    const n = Number(text);
+    if (!Number.isInteger(n) || n === 0) throw new InvalidPageSelectorError(`"${text}" is not a page number.`);
+    return n;
+}
+
+/**
+ * Parses an expression. Throws an `InvalidPageSelectorError` naming the first
+ * term that can't be read.
+ */
+export function parsePageSelector(expression: string): PageSelector {
+    const parts = expression.split(',').map(part => part.trim().toLowerCase());
+    if (parts.every(part => !part)) throw new InvalidPageSelectorError('Enter at least one page.');
+
+    const terms = parts.filter(Boolean).map((part): Term => {
+        if (part === 'odd' || part === 'even' || part === 'all') return { kind: part };
+        if (/^-?\d+$/.test(part) || part === 'first' || part === 'last') {
+            const ref = parseRef(part);
+            return { kind: 'range', from: ref, to: ref, source: part };
+        }
+        const range = RANGE.exec(part);
+        if (!range) throw new InvalidPageSelectorError(`"${part}" is not a page, range, odd, even or all.`);
+        const [from, to] = [parseRef(range[1]), parseRef(range[2])];
+        if (typeof from === 'number' && typeof to === 'number' && from > to) {
+            throw new InvalidPageSelectorError(`The range "${part}" runs backwards.`);
+        }
+        return { kind: 'range', from, to, source: part };
+    });
+    return { terms };
+}
+
+/**
+ * The 0-based page indices a selector picks in a document with `pageCount`
+ * pages, in order and without duplicates. Throws an `InvalidPageSelectorError`
+ * when a term refers to a page the document doesn't have.
+ */
+export function selectPages(selector: PageSelector, pageCount: number): number[] {
+    const pages = new Set<number>();
+    const resolve = (ref: PageRef, source: string) => {
+        const page = ref === 'first' ? 1 : ref === 'last' ? pageCount : ref < 0 ? pageCount + 1 + ref : ref;
+        if (page < 1 || page > pageCount) {
+            throw new InvalidPageSelectorError(`Page "${source}" is out of range: the document has ${pageCount} page${pageCount === 1 ? '' : 's'}.`);
+        }
+        return page;
+    };
+
+    for (const term of selector.terms) {
+        if (term.kind !== 'range') {
+            for (let page = 1; page <= pageCount; page++) {
+                if (term.kind === 'all' || (page % 2 === 1) === (term.kind === 'odd')) pages.add(page - 1);
+            }
+            continue;
+        }
+        const from = resolve(term.from, term.source);
+        const to = resolve(term.to, term.source);
+        if (from > to) throw new InvalidPageSelectorError(`The range "${term.source}" runs backwards in a ${pageCount}-page document.`);
+        for (let page = from; page <= to; page++) pages.add(page - 1);
+    }
+    return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * `parsePageSelector` and `selectPages` in one step, except that an empty
+ * expression picks every page.
+ */
+export function resolvePages(expression: string, pageCount: number): number[] {
+    if (!expression.trim()) return Array.from({ length: pageCount }, (_, i) => i);
+    return selectPages(parsePageSelector(expression), pageCount);
+}
@@ -0,0 +1,277 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFStream, StandardFontEmbedder, StandardFonts, type PDFContext } from 'pdf-lib';
+import { decodeStream } from './content-stream';
+
+/**
+ * What the content walker needs to know about a font resource to lay out the
+ * glyphs of a text-showing operator.
+ */
+export interface FontInfo {
+    /** 1 for simple fonts, 2 for composite (Type0) fonts. */
+    bytesPerCode: 1 | 2;
+    /** Glyph advance in thousandths of text space, as in the /Widths array. */
+    widthOf(code: number): number;
+}
+
+// Used when a font carries no width information and isn't a known standard font.
+const FALLBACK_WIDTH = 500;
+
+const winAnsiDecoder = new TextDecoder('windows-1252');
+
+/**
+ * Maps a font's /BaseFont name (e.g. "ABCDEF+Arial-BoldMT") to the closest of
+ * the standard 14 fonts, based on family and style keywords in the name.
+ */
+export function closestStandardFont(baseFont: string): StandardFonts {
+    const name = baseFont.replace(/^[A-Z]{6}\+/, '').toLowerCase();
+    const bold = /bold|black|heavy|semibold|demi/.test(name);
+    const italic = /italic|oblique|slanted/.test(name);
+
+    if (/courier|mono|consol/.test(name)) {
+        if (bold && italic) return StandardFonts.CourierBoldOblique;
+        if (bold) return StandardFonts.CourierBold;
+        if (italic) return StandardFonts.CourierOblique;
+        return StandardFonts.Courier;
+    }
+    if (/times|serif|roman|georgia|garamond|book|minion|cambria/.test(name) && !/sans/.test(name)) {
+        if (bold && italic) return StandardFonts.TimesRomanBoldItalic;
+        if (bold) return StandardFonts.TimesRomanBold;
+        if (italic) return StandardFonts.TimesRomanItalic;
+        return StandardFonts.TimesRoman;
+    }
+    if (bold && italic) return StandardFonts.HelveticaBoldOblique;
+    if (bold) return StandardFonts.HelveticaBold;
+    if (italic) return StandardFonts.HelveticaOblique;
+    return StandardFonts.Helvetica;
+}
+
+/**
+ * Widths for un-embedded standard 14 fonts, which may omit /Widths entirely.
+ */
+function standardFontWidths(baseFont: string | undefined): ((code: number) => number) | null {
+    if (!baseFont) return null;
+    // StandardFonts and the embedder's FontNames enum share the same string values.
+    const fontName = closestStandardFont(baseFont) as string as Parameters<typeof StandardFontEmbedder.for>[0];
+    const embedder = StandardFontEmbedder.for(fontName);
+    return code => {
+        try {
+            return embedder.widthOfTextAtSize(winAnsiDecoder.decode(Uint8Array.of(code)), 1000);
+        } catch {
+            return FALLBACK_WIDTH;
+        }
+    };
+}
+
+function numberAt(array: PDFArray, index: number): number {
+    const value = array.lookup(index);
+    return value instanceof PDFNumber ? value.asNumber() : 0;
+}
+
+function compositeFontInfo(fontDict: PDFDict): FontInfo {
+    const descendants = fontDict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+    const cidFont = descendants?.lookup(0);
+    const widths = new Map<number, number>();
+    let defaultWidth = 1000;
+
+    if (cidFont instanceof PDFDict) {
+        const dw = cidFont.lookupMaybe(PDFName.of('DW'), PDFNumber);
+        if (dw) defaultWidth = dw.asNumber();
+
+        // /W is a mix of `c [w1 w2 ...]` and `cFirst cLast w` entries.
+        const w = cidFont.lookupMaybe(PDFName.of('W'), PDFArray);
+        if (w) {
+            let i = 0;
+            while (i < w.size()) {
+                const first = numberAt(w, i);
+                const next = w.lookup(i + 1);
+                if (next instanceof PDFArray) {
+                    for (let j = 0; j < next.size(); j++) widths.set(first + j, numberAt(next, j));
+                    i += 2;
+                } else {
+                    const last = numberAt(w, i + 1);
+                    const width = numberAt(w, i + 2);
+                    for (let c = first; c <= last; c++) widths.set(c, width);
+                    i += 3;
+                }
+            }
+        }
+    }
+
+    return {
+        bytesPerCode: 2,
+        widthOf: code => widths.get(code) ?? defaultWidth,
+    };
+}
+
+function simpleFontInfo(fontDict: PDFDict): FontInfo {
+    const firstChar = fontDict.lookupMaybe(PDFName.of('FirstChar'), PDFNumber)?.asNumber() ?? 0;
+    const widthsArray = fontDict.lookupMaybe(PDFName.of('Widths'), PDFArray);
+    const descriptor = fontDict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    const missingWidth = descriptor?.lookupMaybe(PDFName.of('MissingWidth'), PDFNumber)?.asNumber();
+
+    // Type 3 widths are in glyph space and must be scaled by the font matrix.
+    let widthScale = 1;
+    const fontMatrix = fontDict.lookupMaybe(PDFName.of('FontMatrix'), PDFArray);
+    if (fontMatrix && fontMatrix.size() >= 1) widthScale = numberAt(fontMatrix, 0) * 1000;
+
+    const widths = widthsArray
+        ? Array.from({ length: widthsArray.size() }, (_, i) => numberAt(widthsArray, i) * widthScale)
+        : null;
+    const standardWidths = widths ? null : standardFontWidths(fontDict.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText());
+
+    return {
+        bytesPerCode: 1,
+        widthOf: code => {
+            if (!widths) return standardWidths ? standardWidths(code) : missingWidth ?? FALLBACK_WIDTH;
+            const width = widths[code - firstChar];
+            return width ?? missingWidth ?? 0;
+        },
+    };
+}
+
+function hexToNumber(hex: string): number {
+    return parseInt(hex, 16);
+}
+
+function utf16HexToString(hex: string): string {
+    let s = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) s += String.fromCharCode(parseInt(hex.substr(i, 4), 16));
+    return s;
+}
+
+/**
+ * Parses the bfchar / bfrange sections of a /ToUnicode CMap into a code → text map.
+ */
+export function parseToUnicode(cmap: string): Map<number, string> {
+    const map = new Map<number, string>();
+
+    for (const [, body] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+        for (const [, src, dst] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+            map.set(hexToNumber(src), utf16HexToString(dst));
+        }
+    }
+
+    for (const [, body] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+        for (const [, lo, hi, dst, list] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g)) {
+            const first = hexToNumber(lo);
+            const last = hexToNumber(hi);
+            if (list !== undefined) {
+                const targets = [...list.matchAll(/<([0-9a-fA-F]*)>/g)].map(m => utf16HexToString(m[1]));
+                targets.forEach((text, i) => { if (first + i <= last) map.set(first + i, text); });
+            } else if (dst !== undefined && last - first < 0x10000) {
+                // The last UTF-16 unit is incremented across the range.
+                const prefix = dst.slice(0, -4);
+                const base = hexToNumber(dst.slice(-4));
+                for (let code = first; code <= last; code++) {
+                    map.set(code, utf16HexToString(prefix + (base + code - first).toString(16).padStart(4, '0')));
+                }
+            }
+        }
+    }
+    return map;
+}
+
+/**
+ * Returns the font's code → Unicode mapping: its /ToUnicode CMap when present,
+ * otherwise WinAnsi for simple fonts without a custom /Differences encoding.
+ */
+export function loadToUnicode(fontDict: PDFDict): Map<number, string> | null {
+    const toUnicode = fontDict.lookupMaybe(PDFName.of('ToUnicode'), PDFStream);
+    if (toUnicode) {
+        const bytes = decodeStream(toUnicode);
+        let text = '';
+        for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+        return parseToUnicode(text);
+    }
+
+    if (fontDict.lookupMaybe(PDFName.of('Subtype'), PDFName) === PDFName.of('Type0')) return null;
+    const encoding = fontDict.lookup(PDFName.of('Encoding'));
+    if (encoding instanceof PDFDict && encoding.has(PDFName.of('Differences'))) return null;
+
+    const map = new Map<number, string>();
+    for (let code = 32; code < 256; code++) map.set(code, winAnsiDecoder.decode(Uint8Array.of(code)));
+    return map;
+}
+
+/** The code of each character the font has a glyph for, or null without a Unicode mapping. */
+function unicodeToCode(fontDict: PDFDict, info: FontInfo): Map<string, number> | null {
+    const toUnicode = loadToUnicode(fontDict);
+    if (!toUnicode) return null;
+
+    const reverse = new Map<string, number>();
+    for (const [code, unicode] of toUnicode) {
+        if (!reverse.has(unicode) && info.widthOf(code) > 0) reverse.set(unicode, code);
+    }
+    return reverse;
+}
+
+/** Marks a space that has no glyph in the font; see `encodeWithFont`. */
+export const SYNTHETIC_SPACE = -1;
+export const SYNTHETIC_SPACE_WIDTH = 250;
+
+/**
+ * Encodes text into the codes of an existing font, so new text can be drawn
+ * with a font that is already embedded in the document. Returns null when
+ * any character has no glyph in the font (common with subset fonts).
+ */
+export function encodeWithFont(fontDict: PDFDict, info: FontInfo, text: string): number[] | null {
+    const reverse = unicodeToCode(fontDict, info);
+    if (!reverse) return null;
+
+    const codes: number[] = [];
+    for (const char of text) {
+        const code = reverse.get(char);
+        if (code !== undefined) {
+            codes.push(code);
+        } else if (char === ' ') {
+            // Subset fonts often have no space glyph; the gap is drawn as a position adjustment.
+            codes.push(SYNTHETIC_SPACE);
+        } else {
+            return null;
+        }
+    }
+    return codes;
+}
+
+/**
+ * The advance width of each UTF-16 unit of `text`, in thousandths of the font
+ * size: from `fontDict`'s own widths for characters it maps from Unicode,
+ * otherwise from the standard font closest to `baseFont`. Only good for
+ * proportions, as character and word spacing are left out.
+ */
+export function characterWidths(text: string, baseFont: string, fontDict?: PDFDict | null): number[] {
+    const info = fontDict ? loadFontInfo(fontDict) : null;
+    const reverse = fontDict && info ? unicodeToCode(fontDict, info) : null;
+    const standard = StandardFontEmbedder.for(closestStandardFont(baseFont) as string as Parameters<typeof StandardFontEmbedder.for>[0]);
+
+    return text.split('').map(char => {
+        const code = reverse?.get(char);
+        if (info && code !== undefined) return info.widthOf(code);
+        if (char === ' ' && reverse) return SYNTHETIC_SPACE_WIDTH;
+        try {
+            return standard.widthOfTextAtSize(char, 1000);
+        } catch {
+            return FALLBACK_WIDTH;
+        }
+    });
+}
+
+export function loadFontInfo(fontDict: PDFDict): FontInfo {
+    const subtype = fontDict.lookupMaybe(PDFName.of('Subtype'), PDFName);
+    return subtype === PDFName.of('Type0') ? compositeFontInfo(fontDict) : simpleFontInfo(fontDict);
+}
+
+/**
+ * Looks up fonts by resource name in a resources dictionary, caching the results.
+ */
+export function createFontResolver(context: PDFContext, resources: PDFDict | undefined) {
+    const cache = new Map<string, FontInfo | null>();
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+
+    return (name: string): FontInfo | null => {
+        if (cache.has(name)) return cache.get(name)!;
+        const dict = fonts ? context.lookup(fonts.get(PDFName.of(name))) : undefined;
+        const info = dict instanceof PDFDict ? loadFontInfo(dict) : null;
+        cache.set(name, info);
+        return info;
+    };
+}
@@ -0,0 +1,37 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { findMatches, replaceAddress, verifyRedaction } from './pdf-utils';
+
+const OLD = '12 Old Road';
+
+/** A document with the old address twice on the first page and once on the second. */
+async function addressDocument(): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    for (const lines of [[700, 400], [700]]) {
+        const page = pdfDoc.addPage([600, 800]);
+        for (const y of lines) page.drawText(OLD, { x: 72, y, size: 12, font });
+    }
+    return pdfDoc.save();
+}
+
+describe('verifyRedaction', () => {
+    it('ignores occurrences that were kept', async () => {
+        const data = await addressDocument();
+        const matches = await findMatches(data, OLD);
+        expect(matches.map(m => m.pageIndex)).toEqual([0, 0, 1]);
+
+        // Only the lower one on the first page is replaced.
+        const replaced = matches.filter(m => m.pageIndex === 0 && m.y < 500);
+        const output = await replaceAddress(data, replaced, '3 New Street', { redact: true });
+        expect(await verifyRedaction(output, replaced, '3 New Street', [{ text: OLD }])).toEqual([]);
+        expect(await findMatches(output, OLD)).toHaveLength(2);
+    });
+
+    it('reports old text left under a cover', async () => {
+        const data = await addressDocument();
+        const replaced = (await findMatches(data, OLD)).filter(m => m.pageIndex === 1);
+        const leftovers = await verifyRedaction(data, replaced, '3 New Street', [{ text: OLD }]);
+        expect(leftovers.map(m => [m.pageIndex, m.text])).toEqual([[1, OLD]]);
+    });
+});
@@ -1,7 +1,18 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import * as pdfjsLib from 'pdfjs-dist';
-
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+import { PDFDict, PDFDocument, PDFName, rgb, componentsToColor, type PDFFont, type PDFImage, type StandardFonts } from 'pdf-lib';
+import { DEFAULT_COVER, padRect, parseHexColor, WHITE, type BackgroundSampler, type CoverOptions, type Rgb } from './cover';
+import type { CustomFont } from './custom-font';
+import { findFormMatches, formTexts, replaceFormText, type TextSource } from './form-text';
+import { drawGraphic, type ReplacementGraphic } from './graphic';
+import type { Margins, PageContent } from './layout';
+import { hasTextLayer, ocrTextItems, type OcrEngine, type TextOrigin } from './ocr';
+import { applyToPoint, rectContainsPoint, rectsIntersect, rotation, transformRect, type Rect } from './matrix';
+import { characterWidths } from './pdf-fonts';
+import { loadPdfDocument } from './pdfjs';
+import { redactPageRegions } from './redact';
+import { embedChosenFont, resolveReplacementFont, type FontChoice } from './replacement-font';
+import { DEFAULT_TEXT_LAYOUT, layoutText, type TextLayout } from './text-layout';
+import { sampleTextStyles, type SampledStyle } from './text-style';
+import { hitText, isEmptyQuery, normalize, prepareQuery, searchText, type FindOptions } from './text-match';
 
 export interface Match {
     pageIndex: number;
@@ -10,209 +21,622 @@ export interface Match {
     width: number;
     height: number;
     text: string;
+    /** Style of the text behind the match, when it came from a search. */
+    style?: TextStyle;
+    /**
+     * Per-line boxes, top line first, when the match spans several lines. The
+     * match's own box is then the union of these.
+     */
+    lines?: Rect[];
+    /**
+     * Direction of the text baseline in degrees, counter-clockwise in PDF user
+     * space. The boxes stay axis-aligned; new text is drawn along this direction.
+     */
+    rotation?: number;
+    /** Similarity to the query, from 0 to 1. Below 1 only for fuzzy matches. */
+    score?: number;
+    /** Text drawn in place of this match; falls back to the `newText` passed to `replaceAddress`. */
+    replacement?: string;
+    /**
+     * Set when the match is only part of its line of text. The new text then
+     * starts where the old text did, so the rest of the line stays in place.
+     */
+    partial?: boolean;
+    /**
+     * Set when the text is in a form field value or a FreeText annotation
+     * rather than the page content; replacing it edits that text in place.
+     */
+    source?: TextSource;
 }
 
 /**
- * Normalizes text for comparison:
- * - Lowercase
- * - Remove all whitespace
- * - Normalize Unicode (NFC)
- * - Normalize dashes/hyphens
+ * Font and size as reported by pdf.js for the first text item of a match.
+ * Fill colour and character spacing aren't exposed by pdf.js; `replaceAddress`
+ * reads those from the content stream.
  */
-function normalize(str: string): string {
-    return str
-        .toLowerCase()
-        .normalize('NFC')
-        .replace(/[\u2010-\u2015]/g, '-') // Normalize various dashes to hyphen
-        .replace(/\s+/g, '');
+export interface TextStyle {
+    /** PostScript name of the font, e.g. "Arial-BoldMT". */
+    fontName: string;
+    fontSize: number;
+}
+
+export interface ReplaceOptions {
+    /**
+     * Remove the old text from the content stream (and clip images under it)
+     * instead of only painting over it.
+     */
+    redact?: boolean;
+    /**
+     * Font for the new text. Defaults to `'auto'`, matching the document; form
+     * fields and FreeText annotations then use Helvetica.
+     */
+    font?: FontChoice;
+    /** The font file drawn with when `font` is `'custom'`. */
+    customFont?: CustomFont | null;
+    /** Alignment, wrapping and shrinking of the new text in each match's box. */
+    layout?: TextLayout;
+    /** Called with the matches whose new text still doesn't fit their box. */
+    onFitWarnings?: (warnings: string[]) => void;
+    /** Colour and padding of the rectangles painted over the old text. */
+    cover?: CoverOptions;
+    /** Finds the page colour for `cover.fill` `'auto'`; without one, covers are white. */
+    background?: BackgroundSampler;
+    /**
+     * A picture drawn into each match's box instead of the new text. Form
+     * fields and FreeText annotations only hold text, so they still get `newText`.
+     */
+    graphic?: ReplacementGraphic | null;
 }
 
 /**
- * Extracts all text from the PDF for debugging purposes.
+ * A page's text items: pdf.js's, or when the page has no text layer and an
+ * OCR engine is given, the recognised words.
  */
-export async function getPdfText(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const doc = await loadingTask.promise;
+async function pageTextItems(page: any, ocr?: OcrEngine): Promise<{ items: any[]; origin: TextOrigin }> {
+    const content = await page.getTextContent();
+    const items = content.items as any[];
+    if (hasTextLayer(items)) return { items, origin: 'pdf' };
+    if (!ocr) return { items, origin: 'none' };
+    return { items: ocrTextItems(await ocr.recognize(page)), origin: 'ocr' };
+}
+
+const ORIGIN_LABELS: Record<TextOrigin, string> = {
+    pdf: 'text from the PDF',
+    ocr: 'text from OCR',
+    none: 'no text',
+};
+
+/**
+ * Extracts all text from the PDF for debugging purposes, saying for each page
+ * whether its text came from the PDF or from OCR.
+ */
+export async function getPdfText(data: Uint8Array, ocr?: OcrEngine): Promise<string> {
+    const doc = await loadPdfDocument(data);
     let fullText = '';
 
-    for (let p = 1; p <= doc.numPages; p++) {
-        const page = await doc.getPage(p);
-        const content = await page.getTextContent();
-        const pageText = content.items.map((item: any) => item.str).join(' ');
-        fullText += `--- Page ${p} ---\n${pageText}\n\n`;
+    try {
+        for (let p = 1; p <= doc.numPages; p++) {
+            const page = await doc.getPage(p);
+            const { items, origin } = await pageTextItems(page, ocr);
+            const pageText = items.map(item => item.str).join(' ');
+            fullText += `--- Page ${p} (${ORIGIN_LABELS[origin]}) ---\n${pageText}\n\n`;
+            const formText = formTexts(await page.getAnnotations());
+            if (formText.length > 0) fullText += `--- Page ${p} form fields and annotations ---\n${formText.join('\n')}\n\n`;
+        }
+    } finally {
+        doc.destroy();
     }
     return fullText;
 }
 
-export async function findMatches(file: File, searchString: string): Promise<Match[]> {
-    if (!searchString) return [];
+export async function findMatches(data: Uint8Array, searchString: string, options: FindOptions = {}, pages?: number[]): Promise<Match[]> {
+    const [matches] = await findAllMatches(data, [{ text: searchString, ...options }], undefined, pages);
+    return matches;
+}
 
-    const cleanQuery = normalize(searchString);
-    if (!cleanQuery) return [];
+export interface SearchQuery extends FindOptions {
+    text: string;
+}
 
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const doc = await loadingTask.promise;
-    const matches: Match[] = [];
+/**
+ * Searches for several queries while reading the document once. The result has
+ * one list of matches per query, in the same order.
+ *
+ * Exact and fuzzy queries compare normalized text, so whitespace and case don't
+ * matter. Regex queries run on the page text as pdf.js extracts it, with a
+ * newline at the end of each line; they are case-insensitive.
+ *
+ * Besides the page content, this searches the values of form text fields and
+ * the contents of FreeText annotations. Those matches carry a `source`, and
+ * their box is the field's widget or the annotation.
+ *
+ * Pages without a text layer are read with `ocr` when it is given. Their
+ * matches have no `style`, as a scan has no fonts to match. When `pages` is
+ * set, only those 0-based pages are searched.
+ *
+ * Boxes cover just the matched characters, even when pdf.js reports the text
+ * around them in the same item; see `trimToCharacters`.
+ */
+export async function findAllMatches(data: Uint8Array, queries: SearchQuery[], ocr?: OcrEngine, pages?: number[]): Promise<Match[][]> {
+    const results: Match[][] = queries.map(() => []);
+    // Compile up front so an invalid pattern fails before any work is done.
+    const prepared = queries.map(q => prepareQuery(q.text, q));
+    if (prepared.every(isEmptyQuery)) return results;
+
+    const doc = await loadPdfDocument(data);
+    // Only opened to measure characters, when a match covers part of a text item.
+    let pdfDoc: PDFDocument | null = null;
+
+    try {
+        for (let p = 1; p <= doc.numPages; p++) {
+            if (pages && !pages.includes(p - 1)) continue;
+            const page = await doc.getPage(p);
+            const { items, origin } = await pageTextItems(page, ocr);
+
+            // The raw page text, and for each of its characters the item it came from.
+            let rawText = '';
+            const rawItem: number[] = [];
+            const itemStart: number[] = [];
+
+            items.forEach((item, itemIdx) => {
+                const str: string = item.str;
+                itemStart.push(rawText.length);
+                for (let i = 0; i < str.length; i++) {
+                    rawText += str[i];
+                    rawItem.push(itemIdx);
+                }
+                if (item.hasEOL) {
+                    rawText += '\n';
+                    rawItem.push(itemIdx);
+                }
+            });
 
-    for (let p = 1; p <= doc.numPages; p++) {
-        const page = await doc.getPage(p);
-        const content = await page.getTextContent();
-        const items = content.items as any[];
-
-        // Build map using the robust normalizer
-        let cleanText = '';
-        const charMap: { itemIndex: number }[] = [];
-
-        items.forEach((item, itemIdx) => {
-            const str = item.str;
-            // We process char by char to handle "Block C - 13" vs "Block C-13" flexibility
-            // But we need to preserve item mapping
-            for (let i = 0; i < str.length; i++) {
-                const char = str[i];
-                // Check if char is "significant" (not whitespace)
-                // We use the same normalize logic on the single char
-                const nChar = normalize(char);
-                if (nChar.length > 0) {
-                    cleanText += nChar;
-                    charMap.push({ itemIndex: itemIdx });
+            const pageMatches: Match[] = [];
+            // Matches that start or end inside a text item, with the characters of those items left out.
+            const cuts: { match: Match; items: any[]; before: number; after: number }[] = [];
+            for (const [queryIdx, hits] of searchText(rawText, prepared).entries()) {
+                for (const hit of hits) {
+                    const { first, last, score } = hit;
+                    if (first === undefined || last === undefined) continue;
+                    const startItemIdx = rawItem[first];
+                    const endItemIdx = rawItem[last];
+
+                    const startItem = items[startItemIdx];
+                    const endItem = items[endItemIdx];
+                    const matchItems = items.slice(startItemIdx, endItemIdx + 1);
+                    const angle = textRotation(startItem);
+                    const lines = lineRects(matchItems, angle);
+                    const box = unionRect(lines);
+                    const startHeight = startItem.height || Math.abs(startItem.transform[3]);
+
+                    const match: Match = {
+                        pageIndex: p - 1,
+                        ...box,
+                        ...(lines.length > 1 ? { lines } : {}),
+                        ...(angle !== 0 ? { rotation: angle } : {}),
+                        text: hitText(prepared[queryIdx], rawText, hit),
+                        score,
+                    };
+                    results[queryIdx].push(match);
+
+                    const before = first - itemStart[startItemIdx];
+                    const after = Math.max(0, itemStart[endItemIdx] + endItem.str.length - last - 1);
+                    if (before > 0 || after > 0) cuts.push({ match, items: matchItems, before, after });
+
+                    if (origin === 'ocr') continue;
+                    match.style = {
+                        fontName: startItem.fontName,
+                        fontSize: Math.hypot(startItem.transform[2], startItem.transform[3]) || startHeight,
+                    };
+                    pageMatches.push(match);
                 }
             }
-        });
 
-        let startIndex = 0;
-        while (true) {
-            const foundIdx = cleanText.indexOf(cleanQuery, startIndex);
-            if (foundIdx === -1) break;
+            if (pageMatches.length > 0) await resolveFontNames(page, pageMatches);
+            if (cuts.length > 0) {
+                pdfDoc ??= await PDFDocument.load(data, { updateMetadata: false });
+                const fontDicts = pageFontDicts(pdfDoc, p - 1);
+                for (const { match, items: matchItems, before, after } of cuts) {
+                    trimToCharacters(match, matchItems, before, after, item => {
+                        // OCR words have no font; the standard metrics are as good a guess as any.
+                        const name = origin === 'ocr' ? '' : fontNameOf(page, item.fontName);
+                        return characterWidths(item.str, name, fontDicts.get(stripSubsetTag(name)));
+                    });
+                }
+            }
 
-            const firstCharInfo = charMap[foundIdx];
-            const lastCharInfo = charMap[foundIdx + cleanQuery.length - 1];
+            findFormMatches(await page.getAnnotations(), p - 1, prepared)
+                .forEach((formMatches, queryIdx) => results[queryIdx].push(...formMatches));
+        }
+    } finally {
+        doc.destroy();
+    }
+    return results;
+}
 
-            if (firstCharInfo && lastCharInfo) {
-                const startItemIdx = firstCharInfo.itemIndex;
-                const endItemIdx = lastCharInfo.itemIndex;
+/**
+ * Text items only carry pdf.js's internal font id; the real font name is
+ * available once the page's fonts have been loaded by an operator list.
+ */
+async function resolveFontNames(page: any, matches: Match[]): Promise<void> {
+    await page.getOperatorList();
+    for (const match of matches) {
+        match.style!.fontName = fontNameOf(page, match.style!.fontName);
+    }
+}
 
-                let minX = Infinity, maxX = -Infinity;
+/** The name of a font by its pdf.js id, once `resolveFontNames` has loaded the page's fonts. */
+function fontNameOf(page: any, fontId: string): string {
+    const font = page.commonObjs.has(fontId) ? page.commonObjs.get(fontId) : null;
+    return font?.name ?? '';
+}
 
-                for (let i = startItemIdx; i <= endItemIdx; i++) {
-                    const item = items[i];
-                    // Skip items that are purely whitespace/invisible if possible?
-                    // No, safer to include all in range.
-                    const tx = item.transform;
-                    const x = tx[4];
-                    const w = item.width;
+function stripSubsetTag(name: string): string {
+    return name.replace(/^[A-Z]{6}\+/, '');
+}
 
-                    if (x < minX) minX = x;
-                    if (x + w > maxX) maxX = x + w;
-                }
+/** The font dictionaries of a page's resources, by /BaseFont without any subset tag. */
+function pageFontDicts(pdfDoc: PDFDocument, pageIndex: number): Map<string, PDFDict> {
+    const dicts = new Map<string, PDFDict>();
+    const fonts = pdfDoc.getPages()[pageIndex]?.node.Resources()?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    for (const [, ref] of fonts?.entries() ?? []) {
+        const dict = pdfDoc.context.lookup(ref);
+        const baseFont = dict instanceof PDFDict ? dict.lookupMaybe(PDFName.of('BaseFont'), PDFName) : undefined;
+        if (dict instanceof PDFDict && baseFont) dicts.set(stripSubsetTag(baseFont.decodeText()), dict);
+    }
+    return dicts;
+}
 
-                if (minX === Infinity) { // Fallback
-                    const item = items[startItemIdx];
-                    minX = item.transform[4];
-                    maxX = minX + item.width;
-                }
+/**
+ * Narrows a match to its characters when it starts `before` characters into
+ * its first text item or ends `after` characters before the end of its last.
+ * pdf.js only gives whole-item widths, so each item's width is shared out in
+ * proportion to its characters' widths in its font. A match on one line that
+ * leaves other text on that line is marked `partial`.
+ */
+function trimToCharacters(match: Match, items: any[], before: number, after: number, widthsOf: (item: any) => number[]) {
+    const trimmed = items.map(item => ({ ...item }));
+    const advance = (item: any, from: number, to: number) => {
+        const widths = widthsOf(item);
+        const total = widths.reduce((sum, w) => sum + w, 0);
+        return total > 0 ? widths.slice(from, to).reduce((sum, w) => sum + w, 0) / total * item.width : 0;
+    };
+
+    const first = trimmed[0];
+    const last = trimmed[trimmed.length - 1];
+    if (after > 0) last.width -= advance(items[items.length - 1], last.str.length - after, last.str.length);
+    if (before > 0) {
+        const shift = advance(items[0], 0, before);
+        const [cos, sin] = rotation(textRotation(first));
+        first.transform = [...first.transform.slice(0, 4), first.transform[4] + shift * cos, first.transform[5] + shift * sin];
+        first.width -= shift;
+    }
 
-                const startItem = items[startItemIdx];
-                const finalY = startItem.transform[5];
-                const finalH = startItem.height || Math.abs(startItem.transform[3]);
-
-                matches.push({
-                    pageIndex: p - 1,
-                    x: minX,
-                    y: finalY,
-                    width: maxX - minX,
-                    height: finalH,
-                    text: searchString
-                });
-            }
+    const lines = lineRects(trimmed, match.rotation ?? 0);
+    Object.assign(match, unionRect(lines));
+    if (lines.length > 1) {
+        match.lines = lines;
+    } else if (items[0].str.slice(0, before).trim() || items[items.length - 1].str.slice(last.str.length - after).trim()) {
+        match.partial = true;
+    }
+}
 
-            startIndex = foundIdx + 1;
+/** Each page's visible area and rotation, with the bounds of the text on it, in PDF user space. */
+export async function textBounds(data: Uint8Array): Promise<PageContent[]> {
+    const doc = await loadPdfDocument(data);
+    const bounds: PageContent[] = [];
+    try {
+        for (let p = 1; p <= doc.numPages; p++) {
+            const page = await doc.getPage(p);
+            const [x1, y1, x2, y2] = page.view;
+            const items = ((await page.getTextContent()).items as any[]).filter(item => typeof item.str === 'string' && item.str.trim());
+            bounds.push({
+                view: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+                rotation: page.rotate,
+                content: items.length > 0 ? unionRect(items.map(itemRect)) : null,
+            });
         }
+    } finally {
+        doc.destroy();
     }
-    return matches;
+    return bounds;
 }
 
-export async function replaceAddress(file: File, matches: Match[], newText: string): Promise<Blob> {
-    const pdfDoc = await PDFDocument.load(await file.arrayBuffer());
-    const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    const pages = pdfDoc.getPages();
+/** A text item captured by `snapToText`, with its box on the page. */
+export interface SnappedItem {
+    text: string;
+    box: Rect;
+}
 
-    for (const match of matches) {
-        const page = pages[match.pageIndex];
-        const { x, y, width, height } = match;
-
-        page.drawRectangle({
-            x: x - 2,
-            y: y - 2,
-            width: width + 4,
-            height: height + 5,
-            color: rgb(1, 1, 1),
-        });
+/**
+ * Fits a drawn region to the text under it: the result covers exactly the
+ * text items the region overlaps, one box per line, and carries their text.
+ * Items running in a different direction from the first one are left out.
+ * Returns null when the region doesn't touch any text.
+ */
+export async function snapToText(data: Uint8Array, region: Rect & { pageIndex: number }): Promise<{ match: Match; items: SnappedItem[] } | null> {
+    const doc = await loadPdfDocument(data);
+    try {
+        const page = await doc.getPage(region.pageIndex + 1);
+        const content = await page.getTextContent();
+        const touched = (content.items as any[])
+            .filter(item => typeof item.str === 'string' && item.str.trim() && rectsIntersect(itemRect(item), region));
+        if (touched.length === 0) return null;
+
+        const angle = textRotation(touched[0]);
+        const captured = touched.filter(item => textRotation(item) === angle);
+        const lines = lineRects(captured, angle);
+        const first = captured[0];
+        const match: Match = {
+            pageIndex: region.pageIndex,
+            ...unionRect(lines),
+            ...(lines.length > 1 ? { lines } : {}),
+            ...(angle !== 0 ? { rotation: angle } : {}),
+            text: captured.map(item => item.str).join(' ').replace(/\s+/g, ' ').trim(),
+            style: {
+                fontName: first.fontName,
+                fontSize: Math.hypot(first.transform[2], first.transform[3]) || first.height,
+            },
+        };
+        await resolveFontNames(page, [match]);
+        return { match, items: captured.map(item => ({ text: item.str, box: itemRect(item) })) };
+    } finally {
+        doc.destroy();
+    }
+}
 
-        // Heuristic: If height > 24, it's likely a manual block selection, not a single line font height.
-        const isBlock = height > 24;
-        const fontSize = isBlock ? 12 : (height > 5 ? height : 12);
-        const lineHeight = fontSize * 1.2;
-
-        const lines = newText.split('\n');
-
-        // Calculate starting Y position
-        let startY;
-        if (isBlock) {
-            // Vertically center in the block
-            // y is the bottom of the block
-            const boxCenterY = y + (height / 2);
-            const textBlockHalfHeight = ((lines.length - 1) * lineHeight) / 2;
-            // We adjust so the middle of the text block hits the center of the box
-            // Note: PDF text draws from baseline. The "middle" of a line is roughly baseline + fontSize/3.
-            // But simpler baseline centering:
-            startY = boxCenterY + textBlockHalfHeight - (fontSize / 4);
+/**
+ * Direction of a pdf.js text item's baseline, in degrees counter-clockwise.
+ * Rounded to a hundredth of a degree so that quarter turns come out exact.
+ */
+function textRotation(item: any): number {
+    const degrees = Math.atan2(item.transform[1], item.transform[0]) * 180 / Math.PI;
+    return Math.round(degrees * 100) / 100 || 0;
+}
+
+/**
+ * A text item's box on the page: from its baseline up by its height, along its
+ * own direction, as axis-aligned bounds.
+ */
+function itemRect(item: any): Rect {
+    const angle = textRotation(item);
+    const [x, y] = applyToPoint(rotation(-angle), item.transform[4], item.transform[5]);
+    const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+    return transformRect(rotation(angle), { x, y, width: item.width, height });
+}
+
+/**
+ * The centre of each character of a text item, sharing its width out evenly.
+ * Like redaction, which removes glyphs by their centre, this doesn't count
+ * text that only touches a region's edge, such as the rest of a line after a
+ * partial match.
+ */
+function characterCentres(item: any): [number, number][] {
+    const [cos, sin] = rotation(textRotation(item));
+    const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+    const advance = item.width / Math.max(1, item.str.length);
+    return Array.from({ length: item.str.length }, (_, i) => {
+        const along = advance * (i + 0.5);
+        return [item.transform[4] + along * cos - height / 2 * sin, item.transform[5] + along * sin + height / 2 * cos];
+    });
+}
+
+/**
+ * Groups the text items of a match into lines by baseline, and returns one box
+ * per line, top line first. Lines are found in the text's own (rotated) frame,
+ * where each box starts at the baseline and is as tall as the line's tallest
+ * item; the returned boxes are their axis-aligned bounds on the page.
+ */
+function lineRects(items: any[], angle: number): Rect[] {
+    const toFrame = rotation(-angle);
+    const lines: Rect[] = [];
+    for (const [i, item] of items.entries()) {
+        // Whitespace-only items (line ends, gaps) can sit anywhere; they don't define a line.
+        if (!item.str.trim() && i !== 0) continue;
+
+        const [x, y] = applyToPoint(toFrame, item.transform[4], item.transform[5]);
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        const line = lines.find(l => Math.abs(l.y - y) < Math.max(l.height, height) / 2);
+        if (line) {
+            const right = Math.max(line.x + line.width, x + item.width);
+            line.x = Math.min(line.x, x);
+            line.width = right - line.x;
+            line.y = Math.min(line.y, y);
+            line.height = Math.max(line.height, height);
         } else {
-            // Standard baseline
-            startY = y;
+            lines.push({ x, y, width: item.width, height });
         }
-
-        lines.forEach((line, index) => {
-            const textWidth = helveticaFont.widthOfTextAtSize(line, fontSize);
-            const centeredX = x + (width / 2) - (textWidth / 2);
-            const lineY = startY - (index * lineHeight);
-
-            page.drawText(line, {
-                x: centeredX,
-                y: lineY,
-                size: fontSize,
-                font: helveticaFont,
-                color: rgb(0, 0, 0),
-            });
-        });
     }
+    const toPage = rotation(angle);
+    return lines.sort((a, b) => b.y - a.y).map(line => transformRect(toPage, line));
+}
 
-    const pdfBytes = await pdfDoc.save();
-    return new Blob([pdfBytes as any], { type: 'application/pdf' });
+function unionRect(rects: Rect[]): Rect {
+    const left = Math.min(...rects.map(r => r.x));
+    const bottom = Math.min(...rects.map(r => r.y));
+    const right = Math.max(...rects.map(r => r.x + r.width));
+    const top = Math.max(...rects.map(r => r.y + r.height));
+    return { x: left, y: bottom, width: right - left, height: top - bottom };
 }
 
-export async function shiftPageContent(pdfBlob: Blob, xOffset: number, yOffset: number): Promise<Blob> {
-    if (xOffset === 0 && yOffset === 0) return pdfBlob;
+/**
+ * The areas painted over (and, when redacting, scrubbed) for a match: one per
+ * line for multi-line matches, otherwise the match box. Covers of partial
+ * matches aren't padded along the line, which would clip the neighbouring
+ * letters.
+ */
+function coverRects(match: Match, padding: Margins = DEFAULT_COVER.padding): Rect[] {
+    let sides = padding;
+    if (match.partial) {
+        const [cos, sin] = rotation(match.rotation ?? 0);
+        sides = Math.abs(cos) >= Math.abs(sin) ? { ...padding, left: 0, right: 0 } : { ...padding, top: 0, bottom: 0 };
+    }
+    return (match.lines ?? [match]).map(rect => padRect(rect, sides));
+}
 
-    const originalPdf = await PDFDocument.load(await pdfBlob.arrayBuffer());
-    const newPdf = await PDFDocument.create();
+export async function replaceAddress(data: Uint8Array, allMatches: Match[], newText: string, options: ReplaceOptions = {}): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(data);
+    const pages = pdfDoc.getPages();
 
-    const embeddedPages = await newPdf.embedPdf(originalPdf);
+    // Text in form fields and FreeText annotations is edited where it is stored, not painted over.
+    const formMatches = allMatches.filter(m => m.source);
+    const fontCache = new Map<StandardFonts | 'custom', PDFFont>();
+    if (formMatches.length > 0) {
+        await replaceFormText(pdfDoc, formMatches, newText, await embedChosenFont(pdfDoc, options.font ?? 'auto', fontCache, options.customFont));
+    }
+    const matches = allMatches.filter(m => !m.source);
+
+    // Styles are sampled from the original content, before redaction removes the glyphs.
+    const sampledStyles: (SampledStyle | null)[] = matches.map(() => null);
+    pages.forEach((page, pageIndex) => {
+        const indices = matches.flatMap((m, i) => m.pageIndex === pageIndex ? [i] : []);
+        const styles = sampleTextStyles(pdfDoc, page, indices.map(i => coverRects(matches[i])[0]));
+        indices.forEach((matchIndex, j) => { sampledStyles[matchIndex] = styles[j]; });
+    });
+
+    const cover = options.cover ?? DEFAULT_COVER;
+    const covers = matches.map(match => coverRects(match, cover.padding));
+    // Colours are also sampled from the original, around each cover.
+    let fills: Rgb[][] = covers.map(rects => rects.map(() => parseHexColor(cover.fill) ?? WHITE));
+    if (cover.fill === 'auto' && options.background) {
+        const sampled = await options.background.sample(data, covers.flatMap((rects, i) => rects.map(rect => ({ pageIndex: matches[i].pageIndex, rect }))));
+        let next = 0;
+        fills = covers.map(rects => rects.map(() => sampled[next++] ?? WHITE));
+    }
 
-    for (let i = 0; i < embeddedPages.length; i++) {
-        const embeddedPage = embeddedPages[i];
-        const { width, height } = embeddedPage;
+    // Redaction rewrites the existing content streams, so it must run before anything is drawn.
+    if (options.redact) {
+        pages.forEach((page, pageIndex) => {
+            const regions = covers.filter((_, i) => matches[i].pageIndex === pageIndex).flat();
+            redactPageRegions(pdfDoc, page, regions);
+        });
+    }
 
-        const newPage = newPdf.addPage([width, height]);
+    const layout = options.layout ?? DEFAULT_TEXT_LAYOUT;
+    const warnings: string[] = [];
+    const images = new Map<string, PDFImage>();
 
-        // Draw the embedded page onto the new page with offset
-        newPage.drawPage(embeddedPage, {
-            x: xOffset,
-            y: yOffset,
+    for (const [i, match] of matches.entries()) {
+        const page = pages[match.pageIndex];
+        const sampled = sampledStyles[i];
+        // Layout happens in the text's own frame, where its baseline runs along x.
+        const angle = match.rotation ?? 0;
+        const toFrame = rotation(-angle);
+        const toPage = rotation(angle);
+        const box = transformRect(toFrame, match);
+        const baselines = match.lines?.map(line => transformRect(toFrame, line).y) ?? [box.y];
+        const text = match.replacement ?? newText;
+
+        covers[i].forEach((rect, j) => {
+            page.drawRectangle({
+                ...rect,
+                color: rgb(...fills[i][j]),
+            });
         });
+
+        if (options.graphic) {
+            await drawGraphic(pdfDoc, page, options.graphic, box, angle, images);
+            continue;
+        }
+
+        const font = await resolveReplacementFont(pdfDoc, text.split('\n'), sampled, match.style?.fontName, options.font ?? 'auto', fontCache, options.customFont);
+        const color = (sampled && componentsToColor(sampled.color)) || rgb(0, 0, 0);
+
+        // Without a size from the document, a tall box is a drawn region rather than one line of text.
+        const documentSize = sampled?.fontSize ?? match.style?.fontSize;
+        const fontSize = documentSize ?? (box.height > 24 ? 12 : (box.height > 5 ? box.height : 12));
+        // Character spacing shrinks along with the text.
+        const spacingAt = (size: number) => (sampled?.charSpacing ?? 0) * size / fontSize;
+
+        // New text for part of a line goes where the old text started, leaving the rest of the line alone.
+        const matchLayout: TextLayout = match.partial ? { ...layout, align: 'left', anchor: 'baseline', wrap: false } : layout;
+        const block = layoutText(text, box, baselines, fontSize, matchLayout, (line, size) => font.widthOfTextAtSize(line, size, spacingAt(size)));
+        if (!block.fits) {
+            const excerpt = text.split('\n')[0].trim();
+            warnings.push(`Page ${match.pageIndex + 1}: "${excerpt}"${text.trim() !== excerpt ? '...' : ''} doesn't fit its box${layout.shrinkToFit ? `, even at ${block.fontSize} pt` : ''}.`);
+        }
+
+        for (const line of block.lines) {
+            const [pageX, pageY] = applyToPoint(toPage, line.x, line.y);
+            font.drawLine(page, line.text, {
+                x: pageX,
+                y: pageY,
+                size: block.fontSize,
+                color,
+                charSpacing: spacingAt(block.fontSize),
+                rotation: angle,
+            });
+        }
     }
 
-    const pdfBytes = await newPdf.save();
-    return new Blob([pdfBytes as any], { type: 'application/pdf' });
+    if (warnings.length > 0) options.onFitWarnings?.(warnings);
+    return pdfDoc.save();
+}
+
+/**
+ * Checks a redacted output for any of the old text that survived.
+ *
+ * Each exact search is re-run with `findMatches` on the output, on the pages
+ * of `matches` only; a hit only counts when it is centred inside the cover of
+ * one of `matches`, so occurrences that were left alone on purpose (rejected
+ * in review, or on pages outside the selection) don't fail the check. Matches
+ * that can't be checked that way (manual regions, regex and fuzzy searches, or a replacement
+ * containing its own search text) are checked by region instead: any text with
+ * a character centred inside the region that is not part of a replacement
+ * counts as a leftover. `padding` must be the cover padding the output was
+ * made with. Returns the leftovers; an empty array means the check passed.
+ */
+export async function verifyRedaction(
+    output: Uint8Array,
+    matches: Match[],
+    newText: string,
+    searches: SearchQuery[] = [],
+    padding: Margins = DEFAULT_COVER.padding,
+): Promise<Match[]> {
+    const replacements = [newText, ...matches.flatMap(m => m.replacement ?? [])];
+
+    // Searching only works when no replacement itself contains the old text.
+    const searchable = searches
+        .filter(({ text, mode }) => (!mode || mode === 'exact') && normalize(text))
+        .filter(({ text }) => !replacements.some(r => normalize(r).includes(normalize(text))))
+        .map(({ text }) => text);
+    // Form text has no cover; its hits land in the field or annotation box.
+    const replaced = matches.map(m => ({ pageIndex: m.pageIndex, regions: m.source ? [m] : coverRects(m, padding) }));
+    const pages = [...new Set(matches.map(m => m.pageIndex))];
+    const leftovers = (await findAllMatches(output, searchable.map(text => ({ text })), undefined, pages)).flat()
+        .filter(hit => replaced.some(({ pageIndex, regions }) => pageIndex === hit.pageIndex &&
+            regions.some(region => rectContainsPoint(region, hit.x + hit.width / 2, hit.y + hit.height / 2))));
+
+    // Form text is replaced outright, so only page content can hold leftovers in a region.
+    const regionChecked = matches.filter(m => !m.source && !searchable.includes(m.text));
+    if (regionChecked.length === 0) return leftovers;
+
+    const replacementLines = new Set(replacements.flatMap(text => text.split('\n')).map(normalize).filter(Boolean));
+    const doc = await loadPdfDocument(output);
+
+    try {
+        for (const match of regionChecked) {
+            const page = await doc.getPage(match.pageIndex + 1);
+            const content = await page.getTextContent();
+            const regions = coverRects(match, padding);
+
+            for (const item of content.items as any[]) {
+                const text = normalize(item.str);
+                if (!text || replacementLines.has(text)) continue;
+                if (characterCentres(item).some(([x, y]) => regions.some(region => rectContainsPoint(region, x, y)))) {
+                    leftovers.push({
+                        pageIndex: match.pageIndex,
+                        x: item.transform[4],
+                        y: item.transform[5],
+                        width: item.width,
+                        height: item.height,
+                        text: item.str,
+                    });
+                }
+            }
+        }
+    } finally {
+        doc.destroy();
+    }
+    return leftovers;
 }
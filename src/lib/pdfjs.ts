@@ -0,0 +1,16 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+/**
+ * Opens a PDF with pdf.js. Every pdf.js consumer goes through here so they all
+ * share the same offline-safe options. The worker is configured per platform:
+ * see `src/pdfjs-worker.ts` (browser) and `src/cli/pdfjs-node.ts` (Node).
+ */
+export function loadPdfDocument(data: Uint8Array) {
+    return pdfjsLib.getDocument({
+        // pdf.js transfers the buffer to its worker; copy so callers keep theirs.
+        data: data.slice(),
+        // No cMapUrl / standardFontDataUrl: pdf.js falls back to built-in
+        // handling instead of downloading them.
+        isEvalSupported: false,
+    }).promise;
+}
@@ -0,0 +1,29 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, type SavedConfig } from './config';
+import { findMatches } from './pdf-utils';
+import { applyChanges, matchesForConfig, searchOf } from './pipeline';
+
+const OLD = '12 Old Road';
+
+/** A document with the old address once on each of `pageCount` pages. */
+async function addressDocument(pageCount: number): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    for (let i = 0; i < pageCount; i++) pdfDoc.addPage([600, 800]).drawText(OLD, { x: 72, y: 700, size: 12, font });
+    return pdfDoc.save();
+}
+
+describe('applyChanges', () => {
+    it('redacts on the selected pages only, leaving the text on the others', async () => {
+        const data = await addressDocument(3);
+        const rules = [{ find: OLD, replace: '3 New Street', enabled: true }];
+        const config: SavedConfig = { ...DEFAULT_CONFIG, mode: 'auto', rules, pages: '2' };
+
+        const matches = await matchesForConfig(data, config);
+        expect(matches.map(m => m.pageIndex)).toEqual([1]);
+
+        const output = await applyChanges(data, matches, { newText: '', redact: true, searches: rules.map(searchOf) });
+        expect((await findMatches(output, OLD)).map(m => m.pageIndex)).toEqual([0, 2]);
+    });
+});
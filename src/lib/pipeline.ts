@@ -0,0 +1,148 @@
+import { regionsOf, rulesOf, type ReplaceRule, type SavedConfig } from './config';
+import { sourcesOverlap } from './form-text';
+import { NO_TRANSFORM, type PageOffset, type PageTransform } from './layout';
+import { rectsIntersect } from './matrix';
+import type { OcrEngine } from './ocr';
+import { resolvePages } from './page-selector';
+import { transformPages } from './relayout';
+import { findAllMatches, replaceAddress, verifyRedaction, type Match, type ReplaceOptions, type SearchQuery } from './pdf-utils';
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * Thrown when a redacted output still contains the old text.
+ */
+export class RedactionCheckError extends Error {
+    /** 1-based page numbers where old text was found. */
+    readonly pages: number[];
+
+    constructor(pages: number[]) {
+        super(`Redaction check failed: old text still found on page ${pages.join(', ')}.`);
+        this.name = 'RedactionCheckError';
+        this.pages = pages;
+    }
+}
+
+export interface ApplyOptions extends ReplaceOptions {
+    newText: string;
+    /** Page content shift in screen terms: positive y moves content down. */
+    shift?: PageOffset;
+    /** Extra shift per page, by page index, added to `shift`. */
+    pageShifts?: (PageOffset | null)[];
+    /** Crop, rotation, deskew and scaling applied to every page. */
+    transform?: PageTransform;
+    /** Called with anything the layout change could not carry over exactly. */
+    onLayoutWarnings?: (warnings: string[]) => void;
+    /** The auto-mode searches, used to verify redaction by searching again. */
+    searches?: SearchQuery[];
+}
+
+/**
+ * Runs the full edit on one document: replace the matches, verify the
+ * redaction when requested, then shift and transform the pages.
+ */
+export async function applyChanges(data: Uint8Array, matches: Match[], options: ApplyOptions): Promise<Uint8Array> {
+    let output = data;
+
+    if (matches.length > 0) {
+        output = await replaceAddress(output, matches, options.newText, {
+            redact: options.redact,
+            font: options.font,
+            customFont: options.customFont,
+            layout: options.layout,
+            onFitWarnings: options.onFitWarnings,
+            cover: options.cover,
+            background: options.background,
+            graphic: options.graphic,
+        });
+
+        if (options.redact) {
+            const leftovers = await verifyRedaction(output, matches, options.newText, options.searches, options.cover?.padding);
+            if (leftovers.length > 0) {
+                throw new RedactionCheckError([...new Set(leftovers.map(m => m.pageIndex + 1))]);
+            }
+        }
+    }
+
+    const relaid = await transformPages(output, options.transform ?? NO_TRANSFORM, options.shift, options.pageShifts);
+    if (relaid.warnings.length > 0) options.onLayoutWarnings?.(relaid.warnings);
+    return relaid.data;
+}
+
+/**
+ * The search a rule runs; disabled rules search for nothing.
+ */
+export function searchOf(rule: ReplaceRule): SearchQuery {
+    return { text: rule.enabled ? rule.find : '', mode: rule.mode, threshold: rule.threshold };
+}
+
+export interface RuleMatches {
+    /** Matches of every enabled rule, each carrying its rule's replacement text. */
+    matches: Match[];
+    /** Match count per rule, in rule order; 0 for disabled rules. */
+    counts: number[];
+}
+
+/**
+ * Finds the matches of each enabled rule, on the given 0-based pages only when
+ * `pages` is set. Rules run in order, and a match that overlaps one from an
+ * earlier rule is dropped, so the earlier rule wins. Pages without a text
+ * layer are read with `ocr` when it is given.
+ */
+export async function matchRules(data: Uint8Array, rules: ReplaceRule[], pages?: number[], ocr?: OcrEngine): Promise<RuleMatches> {
+    const found = await findAllMatches(data, rules.map(searchOf), ocr, pages);
+    const matches: Match[] = [];
+    const counts = rules.map((rule, i) => {
+        let count = 0;
+        for (const match of found[i]) {
+            if (matches.some(m => overlaps(m, match))) continue;
+            matches.push({ ...match, replacement: rule.replace });
+            count++;
+        }
+        return count;
+    });
+    return { matches, counts };
+}
+
+/**
+ * Whether two matches claim the same text: overlapping parts of one form value,
+ * or intersecting boxes of page content on the same page.
+ */
+function overlaps(a: Match, b: Match): boolean {
+    if (a.source || b.source) return !!a.source && !!b.source && sourcesOverlap(a.source, b.source);
+    return a.pageIndex === b.pageIndex && rectsIntersect(a, b);
+}
+
+/**
+ * Repeats manual regions on each of the given 0-based pages when `repeatOn` is
+ * set; otherwise keeps them where they were drawn, dropping those on pages the
+ * document doesn't have.
+ */
+export function expandRegions(regions: Match[], pageCount: number, repeatOn?: number[]): Match[] {
+    if (repeatOn) {
+        return repeatOn.flatMap(pageIndex => regions.map(region => ({ ...region, pageIndex })));
+    }
+    return regions.filter(region => region.pageIndex < pageCount);
+}
+
+export async function countPages(data: Uint8Array): Promise<number> {
+    return (await PDFDocument.load(data)).getPageCount();
+}
+
+/**
+ * Works out which regions a saved configuration targets in a given document:
+ * rule matches in auto mode, the saved regions in manual mode. Throws an
+ * `InvalidPageSelectorError` when the config's page selector doesn't fit the
+ * document.
+ */
+export async function matchesForConfig(data: Uint8Array, config: SavedConfig, ocr?: OcrEngine): Promise<Match[]> {
+    if (config.mode === 'auto') {
+        const pages = config.pages?.trim() ? resolvePages(config.pages, await countPages(data)) : undefined;
+        return (await matchRules(data, rulesOf(config), pages, ocr)).matches;
+    }
+    const regions = regionsOf(config);
+    if (config.mode === 'manual' && regions.length > 0) {
+        const pageCount = await countPages(data);
+        return expandRegions(regions, pageCount, config.applyToAll ? resolvePages(config.pages ?? '', pageCount) : undefined);
+    }
+    return [];
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from './config';
+import { exportProfiles, parseProfiles, PROFILE_FILE_FORMAT, PROFILE_FILE_VERSION, ProfileValidationError } from './profiles';
+
+const file = (profiles: unknown[], version: unknown = PROFILE_FILE_VERSION) =>
+    JSON.stringify({ format: PROFILE_FILE_FORMAT, version, profiles });
+
+/** The problems `parseProfiles` reports for `json`. */
+function problemsOf(json: string): string[] {
+    try {
+        parseProfiles(json);
+    } catch (e) {
+        if (e instanceof ProfileValidationError) return e.problems;
+        throw e;
+    }
+    throw new Error('Expected the profiles to be rejected.');
+}
+
+describe('parseProfiles', () => {
+    it('reads back what exportProfiles writes', () => {
+        const profiles = [{ name: 'Acme', config: DEFAULT_CONFIG }, { name: 'Globex', config: { ...DEFAULT_CONFIG, mode: 'manual' as const } }];
+        expect(parseProfiles(exportProfiles(profiles))).toEqual(profiles);
+    });
+
+    it('reads files from older versions, upgrading their configs', () => {
+        const [profile] = parseProfiles(file([{
+            name: 'Old',
+            config: {
+                mode: 'auto',
+                searchText: '12 Old Road',
+                newAddress: '3 New Street',
+                manualSelection: { pageIndex: 0, x: 1, y: 2, width: 3, height: 4, text: '' },
+            },
+        }], 1));
+        expect(profile.config.rules).toEqual([{ find: '12 Old Road', replace: '3 New Street', enabled: true }]);
+        expect(profile.config.manualRegions).toEqual([{ pageIndex: 0, x: 1, y: 2, width: 3, height: 4, text: '' }]);
+    });
+
+    it('reads a bare config, as stored before profiles existed', () => {
+        const profiles = parseProfiles(JSON.stringify({ mode: 'manual', searchText: '', newAddress: 'x', manualSelection: null }), 'clients');
+        expect(profiles.map(p => [p.name, p.config.mode])).toEqual([['clients', 'manual']]);
+    });
+
+    it('refuses files from newer versions', () => {
+        expect(problemsOf(file([], PROFILE_FILE_VERSION + 1))).toEqual([
+            `This file is version ${PROFILE_FILE_VERSION + 1}; only versions up to ${PROFILE_FILE_VERSION} can be read. Update the app to import it.`,
+        ]);
+        expect(problemsOf(file([], 0))).toEqual(['version must be a positive whole number.']);
+    });
+
+    it('refuses anything that is not a profile file', () => {
+        expect(problemsOf('{')[0]).toMatch(/^Not valid JSON/);
+        expect(problemsOf('[]')).toEqual(['Expected a JSON object.']);
+        expect(problemsOf('{"format": "other"}')).toEqual([`Not a profile file: expected "format": "${PROFILE_FILE_FORMAT}".`]);
+    });
+
+    it('lists every problem with its path', () => {
+        expect(problemsOf(file([
+            { name: 'A', config: { mode: 'auto', rules: [{ find: 1, replace: '', enabled: true, mode: 'glob' }], pages: '3-1' } },
+            { name: 'A', config: { mode: 'layout', transform: { rotate: 45, deskew: 0, fitTo: 'A5', crop: {} } } },
+            { name: ' ', config: null },
+        ]))).toEqual([
+            'profiles[0].config.pages: The range "3-1" runs backwards.',
+            'profiles[0].config.rules[0].find must be a string.',
+            'profiles[0].config.rules[0].mode must be one of exact, regex, fuzzy.',
+            'profiles[1].config.transform.rotate must be one of 0, 90, 180, 270.',
+            'profiles[1].config.transform.fitTo must be null or one of A4, Letter.',
+            'profiles[1].config.transform.crop must have top, right, bottom and left margins of 0 or more.',
+            'profiles[2].name must be a non-empty string.',
+            'profiles[2].config must be an object.',
+            'profiles[1].name: "A" is used more than once.',
+        ]);
+    });
+
+    it('checks fonts, covers and graphics', () => {
+        expect(problemsOf(file([{
+            name: 'A',
+            config: {
+                mode: 'auto',
+                font: 'custom',
+                cover: { fill: 'red', padding: { top: 0, right: 0, bottom: 0, left: -1 } },
+                graphic: { fit: 'contain', source: { kind: 'qr', text: '' } },
+            },
+        }]))).toEqual([
+            'profiles[0].config.font is "custom" but there is no customFont.',
+            'profiles[0].config.cover.fill must be "auto" or a colour such as "#ffffff".',
+            'profiles[0].config.cover.padding must have top, right, bottom and left margins of 0 or more.',
+            'profiles[0].config.graphic.source.text must be a non-empty string.',
+        ]);
+    });
+
+    it('refuses font and image files that do not load', () => {
+        const problems = problemsOf(file([{
+            name: 'A',
+            config: {
+                mode: 'auto',
+                font: 'custom',
+                customFont: { name: 'Broken', data: btoa('not a font') },
+                graphic: { fit: 'contain', source: { kind: 'image', name: 'logo.png', format: 'png', data: '%%%' } },
+            },
+        }]));
+        expect(problems).toHaveLength(2);
+        expect(problems[0]).toMatch(/^profiles\[0\]\.config\.customFont: "Broken" is not a usable font: /);
+        expect(problems[1]).toBe('profiles[0].config.graphic.source.data is not valid base64.');
+    });
+
+    it('checks the lines, rotation and style of regions', () => {
+        const region = { pageIndex: 0, x: 0, y: 0, width: 10, height: 10, text: '' };
+        expect(problemsOf(file([{
+            name: 'A',
+            config: {
+                mode: 'manual',
+                manualRegions: [
+                    { ...region, lines: [{ x: 0, y: 0, width: 10, height: 5 }, { x: 0, y: 'top', width: 10, height: 0 }], rotation: 90 },
+                    { ...region, lines: [], rotation: '90', style: { fontName: 'Helvetica', fontSize: 0 }, partial: 1 },
+                ],
+            },
+        }]))).toEqual([
+            'profiles[0].config.manualRegions[0].lines[1].y must be a number.',
+            'profiles[0].config.manualRegions[0].lines[1] must have a positive width and height.',
+            'profiles[0].config.manualRegions[1].lines must be a non-empty list.',
+            'profiles[0].config.manualRegions[1].rotation must be a number.',
+            'profiles[0].config.manualRegions[1].style must have a string fontName and a fontSize above 0.',
+            'profiles[0].config.manualRegions[1].partial must be a boolean.',
+        ]);
+    });
+});
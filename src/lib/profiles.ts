@@ -0,0 +1,370 @@
+import { StandardFonts } from 'pdf-lib';
+import { decodeBase64 } from './base64';
+import { regionsOf, rulesOf, type SavedConfig } from './config';
+import { isHexColor } from './cover';
+import { InvalidFontError, loadCustomFont } from './custom-font';
+import { InvalidImageError, loadImageFile } from './graphic';
+import { PAPER_SIZES } from './layout';
+import { InvalidPageSelectorError, parsePageSelector } from './page-selector';
+
+/**
+ * Named configurations, e.g. one per client, and the JSON file format they are
+ * shared in.
+ */
+export interface Profile {
+    name: string;
+    config: SavedConfig;
+}
+
+export const PROFILE_FILE_FORMAT = 'pdf-address-fixer-profiles';
+/**
+ * Bumped whenever `SavedConfig` changes in a way older readers can't ignore.
+ * Older files are still read; settings they lack take their `DEFAULT_CONFIG`
+ * values when a profile is applied.
+ */
+export const PROFILE_FILE_VERSION = 3;
+
+export interface ProfileFile {
+    format: typeof PROFILE_FILE_FORMAT;
+    version: number;
+    profiles: Profile[];
+}
+
+export class ProfileValidationError extends Error {
+    /** One line per problem, each starting with the path of the offending value. */
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(problems.length === 1 ? problems[0] : `${problems.length} problems found: ${problems.join('; ')}`);
+        this.name = 'ProfileValidationError';
+        this.problems = problems;
+    }
+}
+
+export function exportProfiles(profiles: Profile[]): string {
+    const file: ProfileFile = { format: PROFILE_FILE_FORMAT, version: PROFILE_FILE_VERSION, profiles };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads profiles from JSON. Besides profile files this accepts a single bare
+ * `SavedConfig`, as stored before profiles existed, which becomes one profile
+ * called `fallbackName`. Throws a `ProfileValidationError` listing everything
+ * that is wrong with the input.
+ */
+export function parseProfiles(json: string, fallbackName = 'Imported'): Profile[] {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch (e) {
+        throw new ProfileValidationError([`Not valid JSON: ${e instanceof Error ? e.message : e}`]);
+    }
+    if (!isObject(value)) throw new ProfileValidationError(['Expected a JSON object.']);
+
+    const problems: string[] = [];
+    let profiles: Profile[];
+    if (value.format === PROFILE_FILE_FORMAT) {
+        if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+            throw new ProfileValidationError(['version must be a positive whole number.']);
+        }
+        if (value.version > PROFILE_FILE_VERSION) {
+            throw new ProfileValidationError([`This file is version ${value.version}; only versions up to ${PROFILE_FILE_VERSION} can be read. Update the app to import it.`]);
+        }
+        if (!Array.isArray(value.profiles)) throw new ProfileValidationError(['profiles must be a list.']);
+        profiles = value.profiles.map((entry, i) => checkProfile(entry, `profiles[${i}]`, problems));
+        const names = profiles.map(p => p.name);
+        names.forEach((name, i) => {
+            if (name && names.indexOf(name) !== i) problems.push(`profiles[${i}].name: "${name}" is used more than once.`);
+        });
+    } else if ('mode' in value) {
+        profiles = [{ name: fallbackName, config: checkConfig(value, 'config', problems) }];
+    } else {
+        throw new ProfileValidationError([`Not a profile file: expected "format": "${PROFILE_FILE_FORMAT}".`]);
+    }
+
+    if (problems.length > 0) throw new ProfileValidationError(problems);
+    return profiles;
+}
+
+/**
+ * Brings a config saved by an older version up to date: rules and regions
+ * replace the single search text and selection they grew out of.
+ */
+export function migrateConfig(config: SavedConfig): SavedConfig {
+    return { ...config, rules: rulesOf(config), manualRegions: regionsOf(config) };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkProfile(value: unknown, path: string, problems: string[]): Profile {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return { name: '', config: {} as SavedConfig };
+    }
+    if (typeof value.name !== 'string' || !value.name.trim()) problems.push(`${path}.name must be a non-empty string.`);
+    return { name: String(value.name ?? '').trim(), config: checkConfig(value.config, `${path}.config`, problems) };
+}
+
+const MODES = ['auto', 'manual', 'layout'];
+const MATCH_MODES = ['exact', 'regex', 'fuzzy'];
+const FONTS: string[] = ['auto', 'custom', ...Object.values(StandardFonts)];
+const ALIGN_MODES = ['center', 'margin'];
+const QUARTER_TURNS = [0, 90, 180, 270];
+const PAPER: (string | null)[] = [null, ...Object.keys(PAPER_SIZES)];
+const TEXT_ALIGNS = ['left', 'center', 'right'];
+const TEXT_ANCHORS = ['auto', 'top', 'middle', 'baseline'];
+const IMAGE_FITS = ['contain', 'cover', 'stretch'];
+const IMAGE_FORMATS = ['png', 'jpg'];
+
+function checkConfig(value: unknown, path: string, problems: string[]): SavedConfig {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return {} as SavedConfig;
+    }
+    const expect = (key: string, type: 'string' | 'boolean') => {
+        if (value[key] !== undefined && typeof value[key] !== type) problems.push(`${path}.${key} must be a ${type}.`);
+    };
+
+    if (!MODES.includes(value.mode as string)) problems.push(`${path}.mode must be one of ${MODES.join(', ')}.`);
+    expect('searchText', 'string');
+    expect('newAddress', 'string');
+    expect('applyToAll', 'boolean');
+    expect('snapToText', 'boolean');
+    expect('redact', 'boolean');
+    if (value.font !== undefined && !FONTS.includes(value.font as string)) problems.push(`${path}.font "${value.font}" is not a known font.`);
+    if (value.customFont !== undefined && value.customFont !== null) {
+        const custom = value.customFont;
+        if (!isObject(custom) || typeof custom.name !== 'string' || typeof custom.data !== 'string') {
+            problems.push(`${path}.customFont must be an object with a string name and base64 data.`);
+        } else {
+            checkFontFile(custom.name, custom.data, `${path}.customFont`, problems);
+        }
+    } else if (value.font === 'custom') {
+        problems.push(`${path}.font is "custom" but there is no customFont.`);
+    }
+
+    if (value.pages !== undefined) {
+        if (typeof value.pages !== 'string') {
+            problems.push(`${path}.pages must be a string.`);
+        } else if (value.pages.trim()) {
+            try {
+                parsePageSelector(value.pages);
+            } catch (e) {
+                if (!(e instanceof InvalidPageSelectorError)) throw e;
+                problems.push(`${path}.pages: ${e.message}`);
+            }
+        }
+    }
+
+    if (value.pageShift !== undefined) checkOffset(value.pageShift, `${path}.pageShift`, problems);
+    if (value.pageShifts !== undefined) {
+        if (!Array.isArray(value.pageShifts)) {
+            problems.push(`${path}.pageShifts must be a list.`);
+        } else {
+            value.pageShifts.forEach((shift, i) => {
+                if (shift !== null) checkOffset(shift, `${path}.pageShifts[${i}]`, problems);
+            });
+        }
+    }
+    if (value.autoAlign !== undefined && value.autoAlign !== null) {
+        const align = value.autoAlign;
+        if (!isObject(align)) {
+            problems.push(`${path}.autoAlign must be an object.`);
+        } else {
+            if (!ALIGN_MODES.includes(align.mode as string)) problems.push(`${path}.autoAlign.mode must be one of ${ALIGN_MODES.join(', ')}.`);
+            if (typeof align.left !== 'number' || typeof align.top !== 'number') problems.push(`${path}.autoAlign must have numeric left and top margins.`);
+        }
+    }
+
+    if (value.transform !== undefined) checkTransform(value.transform, `${path}.transform`, problems);
+    if (value.textLayout !== undefined) checkTextLayout(value.textLayout, `${path}.textLayout`, problems);
+    if (value.cover !== undefined) checkCover(value.cover, `${path}.cover`, problems);
+    if (value.graphic !== undefined && value.graphic !== null) checkGraphic(value.graphic, `${path}.graphic`, problems);
+
+    if (value.rules !== undefined) {
+        if (!Array.isArray(value.rules)) {
+            problems.push(`${path}.rules must be a list.`);
+        } else {
+            value.rules.forEach((rule, i) => {
+                const at = `${path}.rules[${i}]`;
+                if (!isObject(rule)) {
+                    problems.push(`${at} must be an object.`);
+                    return;
+                }
+                if (typeof rule.find !== 'string') problems.push(`${at}.find must be a string.`);
+                if (typeof rule.replace !== 'string') problems.push(`${at}.replace must be a string.`);
+                if (typeof rule.enabled !== 'boolean') problems.push(`${at}.enabled must be a boolean.`);
+                if (rule.mode !== undefined && !MATCH_MODES.includes(rule.mode as string)) problems.push(`${at}.mode must be one of ${MATCH_MODES.join(', ')}.`);
+                if (rule.threshold !== undefined && (typeof rule.threshold !== 'number' || rule.threshold < 0 || rule.threshold > 1)) {
+                    problems.push(`${at}.threshold must be a number from 0 to 1.`);
+                }
+            });
+        }
+    }
+
+    if (value.manualRegions !== undefined) {
+        if (!Array.isArray(value.manualRegions)) {
+            problems.push(`${path}.manualRegions must be a list.`);
+        } else {
+            value.manualRegions.forEach((region, i) => checkRegion(region, `${path}.manualRegions[${i}]`, problems));
+        }
+    }
+    if (value.manualSelection !== undefined && value.manualSelection !== null) {
+        checkRegion(value.manualSelection, `${path}.manualSelection`, problems);
+    }
+
+    const config = value as unknown as SavedConfig;
+    return migrateConfig({ ...config, searchText: config.searchText ?? '', newAddress: config.newAddress ?? '', manualSelection: config.manualSelection ?? null });
+}
+
+function checkOffset(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value) || typeof value.x !== 'number' || typeof value.y !== 'number') {
+        problems.push(`${path} must be an object with numeric x and y.`);
+    }
+}
+
+function checkTransform(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return;
+    }
+    if (!QUARTER_TURNS.includes(value.rotate as number)) problems.push(`${path}.rotate must be one of ${QUARTER_TURNS.join(', ')}.`);
+    if (typeof value.deskew !== 'number' || !Number.isFinite(value.deskew)) problems.push(`${path}.deskew must be a number.`);
+    if (!PAPER.includes(value.fitTo as string | null)) problems.push(`${path}.fitTo must be null or one of ${Object.keys(PAPER_SIZES).join(', ')}.`);
+    const crop = value.crop;
+    if (!isObject(crop) || ['top', 'right', 'bottom', 'left'].some(edge => typeof crop[edge] !== 'number' || (crop[edge] as number) < 0)) {
+        problems.push(`${path}.crop must have top, right, bottom and left margins of 0 or more.`);
+    }
+}
+
+function checkTextLayout(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return;
+    }
+    if (!TEXT_ALIGNS.includes(value.align as string)) problems.push(`${path}.align must be one of ${TEXT_ALIGNS.join(', ')}.`);
+    if (!TEXT_ANCHORS.includes(value.anchor as string)) problems.push(`${path}.anchor must be one of ${TEXT_ANCHORS.join(', ')}.`);
+    if (typeof value.wrap !== 'boolean') problems.push(`${path}.wrap must be a boolean.`);
+    if (typeof value.shrinkToFit !== 'boolean') problems.push(`${path}.shrinkToFit must be a boolean.`);
+    if (value.lineHeight !== null && (typeof value.lineHeight !== 'number' || !(value.lineHeight > 0))) {
+        problems.push(`${path}.lineHeight must be null or a number above 0.`);
+    }
+}
+
+function checkCover(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return;
+    }
+    if (value.fill !== 'auto' && !(typeof value.fill === 'string' && isHexColor(value.fill))) {
+        problems.push(`${path}.fill must be "auto" or a colour such as "#ffffff".`);
+    }
+    const padding = value.padding;
+    if (!isObject(padding) || ['top', 'right', 'bottom', 'left'].some(edge => typeof padding[edge] !== 'number' || (padding[edge] as number) < 0)) {
+        problems.push(`${path}.padding must have top, right, bottom and left margins of 0 or more.`);
+    }
+}
+
+function checkGraphic(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return;
+    }
+    if (!IMAGE_FITS.includes(value.fit as string)) problems.push(`${path}.fit must be one of ${IMAGE_FITS.join(', ')}.`);
+    const source = value.source;
+    if (!isObject(source)) {
+        problems.push(`${path}.source must be an object.`);
+    } else if (source.kind === 'image') {
+        if (typeof source.name !== 'string' || typeof source.data !== 'string') {
+            problems.push(`${path}.source must have a string name and base64 data.`);
+        } else {
+            checkImageFile(source.name, source.data, `${path}.source`, problems);
+        }
+        if (!IMAGE_FORMATS.includes(source.format as string)) problems.push(`${path}.source.format must be one of ${IMAGE_FORMATS.join(', ')}.`);
+    } else if (source.kind === 'qr') {
+        if (typeof source.text !== 'string' || !source.text) problems.push(`${path}.source.text must be a non-empty string.`);
+    } else {
+        problems.push(`${path}.source.kind must be "image" or "qr".`);
+    }
+}
+
+/** The bytes of base64 `data`, or null after noting the problem when it isn't base64. */
+function decodeData(data: string, path: string, problems: string[]): Uint8Array | null {
+    try {
+        return decodeBase64(data);
+    } catch {
+        problems.push(`${path}.data is not valid base64.`);
+        return null;
+    }
+}
+
+/** Checks that a font file decodes and is one the replacement text can be drawn with. */
+function checkFontFile(name: string, data: string, path: string, problems: string[]) {
+    const bytes = decodeData(data, path, problems);
+    if (!bytes) return;
+    try {
+        loadCustomFont(name, bytes);
+    } catch (e) {
+        if (!(e instanceof InvalidFontError)) throw e;
+        problems.push(`${path}: ${e.message}`);
+    }
+}
+
+/** Checks that an image file decodes and is a PNG or JPEG. */
+function checkImageFile(name: string, data: string, path: string, problems: string[]) {
+    const bytes = decodeData(data, path, problems);
+    if (!bytes) return;
+    try {
+        loadImageFile(name, bytes);
+    } catch (e) {
+        if (!(e instanceof InvalidImageError)) throw e;
+        problems.push(`${path}: ${e.message}`);
+    }
+}
+
+function checkRegion(value: unknown, path: string, problems: string[]) {
+    if (!isObject(value)) {
+        problems.push(`${path} must be an object.`);
+        return;
+    }
+    if (typeof value.pageIndex !== 'number' || !Number.isInteger(value.pageIndex) || value.pageIndex < 0) {
+        problems.push(`${path}.pageIndex must be a whole number from 0.`);
+    }
+    checkBox(value, path, problems);
+    if (typeof value.text !== 'string') problems.push(`${path}.text must be a string.`);
+    if (value.replacement !== undefined && typeof value.replacement !== 'string') problems.push(`${path}.replacement must be a string.`);
+
+    if (value.lines !== undefined) {
+        if (!Array.isArray(value.lines) || value.lines.length === 0) {
+            problems.push(`${path}.lines must be a non-empty list.`);
+        } else {
+            value.lines.forEach((line, i) => {
+                if (isObject(line)) checkBox(line, `${path}.lines[${i}]`, problems);
+                else problems.push(`${path}.lines[${i}] must be an object.`);
+            });
+        }
+    }
+    if (value.rotation !== undefined && (typeof value.rotation !== 'number' || !Number.isFinite(value.rotation))) {
+        problems.push(`${path}.rotation must be a number.`);
+    }
+    if (value.style !== undefined) {
+        const style = value.style;
+        if (!isObject(style) || typeof style.fontName !== 'string' || typeof style.fontSize !== 'number' ||
+            !Number.isFinite(style.fontSize) || style.fontSize <= 0) {
+            problems.push(`${path}.style must have a string fontName and a fontSize above 0.`);
+        }
+    }
+    if (value.partial !== undefined && typeof value.partial !== 'boolean') problems.push(`${path}.partial must be a boolean.`);
+}
+
+/** Checks the x, y, width and height of a region or one of its lines. */
+function checkBox(value: Record<string, unknown>, path: string, problems: string[]) {
+    for (const key of ['x', 'y', 'width', 'height']) {
+        if (typeof value[key] !== 'number' || !Number.isFinite(value[key])) problems.push(`${path}.${key} must be a number.`);
+    }
+    if (typeof value.width === 'number' && typeof value.height === 'number' && (value.width <= 0 || value.height <= 0)) {
+        problems.push(`${path} must have a positive width and height.`);
+    }
+}
@@ -0,0 +1,59 @@
+import { PDFDocument, PDFName, StandardFonts } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { parseContentStream, readPageContent, writePageContent } from './content-stream';
+import { redactPageRegions } from './redact';
+
+const bytes = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0));
+
+/** A one-page document whose content stream is `content`, with Helvetica as /F1. */
+async function pageWithContent(content: string) {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([300, 300]);
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    // Fonts are normally written out on save; the redaction reads this one before that.
+    await font.embed();
+    page.node.setFontDictionary(PDFName.of('F1'), font.ref);
+    writePageContent(pdfDoc.context, page, bytes(content));
+    return { pdfDoc, page };
+}
+
+describe('redactPageRegions', () => {
+    it('replaces the glyphs in a region by a TJ adjustment of the same advance', async () => {
+        // At 10 pt, Helvetica's "ABC" is 20.56 wide and "DEF" 20; the -250 adds 2.5.
+        const { pdfDoc, page } = await pageWithContent('BT /F1 10 Tf 1 0 0 1 100 100 Tm [(ABC) -250 (DEF)] TJ ET');
+        redactPageRegions(pdfDoc, page, [{ x: 122, y: 95, width: 22, height: 15 }]);
+
+        const show = parseContentStream(readPageContent(page)).find(op => op.operator === 'TJ');
+        expect(show?.operands).toEqual([{
+            kind: 'array',
+            items: [{ kind: 'string', bytes: bytes('ABC') }, { kind: 'number', value: -2250 }],
+        }]);
+    });
+});
+
+describe('redactPageRegions on images', () => {
+    /** Whether (x, y) is inside an even-odd clip made of the `rects`. */
+    const insideClip = (rects: number[][], x: number, y: number) =>
+        rects.filter(([rx, ry, w, h]) => x >= rx && x <= rx + w && y >= ry && y <= ry + h).length % 2 === 1;
+
+    it('clips out every region, including where regions overlap', async () => {
+        const { pdfDoc, page } = await pageWithContent('q 100 0 0 100 50 50 cm BI /W 1 /H 1 /BPC 8 /CS /G ID \x80 EI Q');
+        redactPageRegions(pdfDoc, page, [{ x: 60, y: 60, width: 40, height: 20 }, { x: 60, y: 75, width: 40, height: 20 }]);
+
+        // The rectangles of each clip path, in the order they are applied.
+        const clips: number[][][] = [];
+        let path: number[][] = [];
+        for (const op of parseContentStream(readPageContent(page))) {
+            if (op.operator === 're') path.push(op.operands.map(operand => operand.kind === 'number' ? operand.value : NaN));
+            if (op.operator === 'W*') clips.push(path);
+            if (op.operator === 'n') path = [];
+        }
+        const visible = (x: number, y: number) => clips.every(rects => insideClip(rects, x, y));
+
+        expect(clips.length).toBeGreaterThan(0);
+        expect(visible(80, 65)).toBe(false);
+        expect(visible(80, 78)).toBe(false);
+        expect(visible(80, 90)).toBe(false);
+        expect(visible(80, 120)).toBe(true);
+    });
+});
@@ -0,0 +1,147 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFStream, type PDFDocument, type PDFPage } from 'pdf-lib';
+import { joinContent, parseContentStream, readPageContent, serializeOperand, serializeOperation, writePageContent, type Operand, type Operation } from './content-stream';
+import { walkContent, type GraphicsState, type ShowElement } from './content-walker';
+import { invert, rectContainsPoint, rectsIntersect, type Matrix, type Rect } from './matrix';
+import { createFontResolver } from './pdf-fonts';
+
+/**
+ * True redaction: removes the glyphs that fall inside the given regions from
+ * the page content stream, and clips images / form XObjects so none of their
+ * pixels inside the regions are painted.
+ *
+ * Removed glyphs are replaced by TJ position adjustments of the same advance,
+ * so the text that follows them on the same line stays where it was.
+ */
+export function redactPageRegions(pdfDoc: PDFDocument, page: PDFPage, regions: Rect[]) {
+    if (regions.length === 0) return;
+
+    const context = pdfDoc.context;
+    const resources = page.node.Resources();
+    const source = readPageContent(page);
+    const operations = parseContentStream(source);
+
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    const resolveXObject = (name: string) => {
+        const stream = xObjects ? context.lookup(xObjects.get(PDFName.of(name))) : undefined;
+        if (!(stream instanceof PDFStream)) return null;
+        if (stream.dict.lookupMaybe(PDFName.of('Subtype'), PDFName) !== PDFName.of('Form')) return null;
+        return {
+            matrix: numbersOf(stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray), [1, 0, 0, 1, 0, 0]) as Matrix,
+            bbox: boxOf(numbersOf(stream.dict.lookupMaybe(PDFName.of('BBox'), PDFArray), [0, 0, 0, 0])),
+        };
+    };
+
+    const replacements = new Map<Operation, string>();
+    const { width: pageWidth, height: pageHeight } = page.getSize();
+    const { x: originX, y: originY } = page.getMediaBox();
+
+    walkContent(operations, { resolveFont: createFontResolver(context, resources), resolveXObject }, {
+        onShowText(op, elements, state) {
+            const rewritten = rewriteShowText(op, elements, state, regions);
+            if (rewritten !== null) replacements.set(op, rewritten);
+        },
+        onXObject(op, _name, bbox, state) {
+            if (!bbox || !regions.some(region => rectsIntersect(region, bbox))) return;
+            const inverse = invert(state.ctm);
+            if (!inverse) return;
+
+            // One even-odd clip per region, each the page box minus that region. Clips
+            // intersect, so this leaves out every region; a single even-odd path
+            // would show again wherever two regions overlap. The clip paths are built
+            // with the CTM reset to identity, then the original CTM is restored for the draw.
+            const clipPath = regions.flatMap(r => [
+                `${originX} ${originY} ${pageWidth} ${pageHeight} re`,
+                `${r.x} ${r.y} ${r.width} ${r.height} re`,
+                'W* n',
+            ]);
+            replacements.set(op, [
+                'q',
+                serializeOperation('cm', inverse.map(value => ({ kind: 'number', value }))),
+                ...clipPath,
+                serializeOperation('cm', state.ctm.map(value => ({ kind: 'number', value }))),
+                latin1Slice(source, op),
+                'Q',
+            ].join('\n'));
+        },
+    });
+
+    if (replacements.size === 0) return;
+
+    const chunks = operations.map(op => replacements.get(op) ?? source.subarray(op.start, op.end));
+    writePageContent(context, page, joinContent(chunks));
+}
+
+/**
+ * Returns the replacement operators for a text-showing operation, or null when
+ * none of its glyphs fall inside a region.
+ */
+function rewriteShowText(op: Operation, elements: ShowElement[], state: GraphicsState, regions: Rect[]): string | null {
+    const isRedacted = (element: ShowElement) => 'glyph' in element && regions.some(region => {
+        const { bbox } = element.glyph;
+        return rectContainsPoint(region, bbox.x + bbox.width / 2, bbox.y + bbox.height / 2);
+    });
+    if (!elements.some(isRedacted)) return null;
+
+    const { fontSize, charSpacing, wordSpacing } = state.text;
+    const items: Operand[] = [];
+    let pendingBytes: number[] = [];
+    let pendingAdjustment = 0;
+
+    const flushBytes = () => {
+        if (pendingBytes.length === 0) return;
+        items.push({ kind: 'string', bytes: Uint8Array.from(pendingBytes) });
+        pendingBytes = [];
+    };
+    const flushAdjustment = () => {
+        if (pendingAdjustment === 0) return;
+        items.push({ kind: 'number', value: pendingAdjustment });
+        pendingAdjustment = 0;
+    };
+
+    for (const element of elements) {
+        if ('adjustment' in element) {
+            flushBytes();
+            pendingAdjustment += element.adjustment;
+        } else if (isRedacted(element)) {
+            flushBytes();
+            // A TJ adjustment of n moves the pen by -n/1000 * fontSize, so this reproduces
+            // the glyph's advance including character and word spacing.
+            const { width, isSpace } = element.glyph;
+            const spacing = charSpacing + (isSpace ? wordSpacing : 0);
+            pendingAdjustment -= fontSize !== 0 ? width + spacing * 1000 / fontSize : width;
+        } else {
+            flushAdjustment();
+            pendingBytes.push(...element.glyph.bytes);
+        }
+    }
+    flushBytes();
+    flushAdjustment();
+
+    const showOperation = serializeOperation('TJ', [{ kind: 'array', items }]);
+    switch (op.operator) {
+        case "'":
+            return `T*\n${showOperation}`;
+        case '"':
+            return `${serializeOperand(op.operands[0])} Tw ${serializeOperand(op.operands[1])} Tc T*\n${showOperation}`;
+        default:
+            return showOperation;
+    }
+}
+
+function numbersOf(array: PDFArray | undefined, fallback: number[]): number[] {
+    if (!array) return fallback;
+    return Array.from({ length: array.size() }, (_, i) => {
+        const value = array.lookup(i);
+        return value instanceof PDFNumber ? value.asNumber() : 0;
+    });
+}
+
+function boxOf([x1, y1, x2, y2]: number[]): Rect {
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+function latin1Slice(source: Uint8Array, op: Operation): string {
+    let s = '';
+    for (let i = op.start; i < op.end; i++) s += String.fromCharCode(source[i]);
+    return s;
+}
@@ -0,0 +1,246 @@
+/**
+ * Layout mode's page transform, applied to the document in place: each page's
+ * content is wrapped in a `cm` and its boxes replaced, so everything else in
+ * the file (outlines, links, form fields, annotations, metadata, page labels,
+ * attachments) is kept. Annotations and destinations on a page are moved with
+ * its content.
+ */
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFRef, PDFStream, PDFDocument, type PDFContext, type PDFObject, type PDFPage } from 'pdf-lib';
+import { addOffsets, isIdentityTransform, isZeroOffset, NO_OFFSET, placePage, type PageOffset, type PageTransform } from './layout';
+import { applyToPoint, multiply, rectsIntersect, transformRect, type Matrix, type Rect } from './matrix';
+
+export interface RelayoutResult {
+    data: Uint8Array;
+    /** What could not be carried over exactly, one line per page and kind. */
+    warnings: string[];
+}
+
+/**
+ * Redraws every page through `transform`, moving its content by `shift` plus
+ * the page's entry in `pageShifts` on the way (both in screen terms). Pages
+ * come out unrotated, the same way up as they were shown.
+ */
+export async function transformPages(data: Uint8Array, transform: PageTransform, shift: PageOffset = NO_OFFSET, pageShifts: (PageOffset | null)[] = []): Promise<RelayoutResult> {
+    if (isIdentityTransform(transform) && isZeroOffset(shift) && pageShifts.every(isZeroOffset)) return { data, warnings: [] };
+
+    const pdfDoc = await PDFDocument.load(data);
+    const context = pdfDoc.context;
+    const warnings: string[] = [];
+    // Appearance streams can be shared between annotations; each is turned once.
+    const turnedStreams = new Set<PDFStream>();
+    const pageMatrices = new Map<PDFRef, Matrix>();
+
+    pdfDoc.getPages().forEach((page, i) => {
+        const placement = placePage(page.getCropBox(), page.getRotation().angle, transform, addOffsets(shift, pageShifts[i]));
+        const { matrix } = placement;
+        pageMatrices.set(page.ref, matrix);
+
+        wrapContent(context, page, matrix);
+
+        const newBox: Rect = { x: 0, y: 0, width: placement.width, height: placement.height };
+        const node = page.node;
+        node.set(PDFName.of('MediaBox'), context.obj([0, 0, placement.width, placement.height]));
+        node.delete(PDFName.of('CropBox'));
+        for (const name of ['BleedBox', 'TrimBox', 'ArtBox']) {
+            const box = node.lookupMaybe(PDFName.of(name), PDFArray);
+            if (box) node.set(PDFName.of(name), arrayOf(context, clampBox(transformRect(matrix, boxOf(numbersOf(box))), newBox)));
+        }
+        node.set(PDFName.of('Rotate'), PDFNumber.of(0));
+
+        const offPage: string[] = [];
+        let tiltedFields = 0;
+        const annots = node.Annots();
+        for (let a = 0; a < (annots?.size() ?? 0); a++) {
+            const annot = annots!.lookup(a);
+            if (!(annot instanceof PDFDict)) continue;
+            const subtype = annot.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() ?? 'Annotation';
+            const rect = moveAnnotation(context, annot, matrix, turnedStreams);
+            if (rect && !rectsIntersect(rect, newBox) && subtype !== 'Popup') offPage.push(subtype);
+            if (subtype === 'Widget' && transform.deskew !== 0) tiltedFields++;
+        }
+        if (offPage.length > 0) {
+            warnings.push(`Page ${i + 1}: ${describeCounts(offPage)} now outside the page and won't be visible.`);
+        }
+        if (tiltedFields > 0) {
+            warnings.push(`Page ${i + 1}: ${tiltedFields} form field${tiltedFields === 1 ? ' is' : 's are'} deskewed; viewers may draw ${tiltedFields === 1 ? 'it' : 'them'} straight again once edited.`);
+        }
+    });
+
+    moveDestinations(pdfDoc, pageMatrices);
+    return { data: await pdfDoc.save(), warnings };
+}
+
+/** Puts the page's content streams inside `q <matrix> cm q ... Q Q`. */
+function wrapContent(context: PDFContext, page: PDFPage, matrix: Matrix) {
+    const contents = page.node.get(PDFName.of('Contents'));
+    const resolved = contents ? context.lookup(contents) : undefined;
+    const streams: PDFObject[] = resolved instanceof PDFArray ? resolved.asArray() : contents ? [contents] : [];
+    // The inner q/Q keeps content with unbalanced operators from undoing the cm.
+    const start = context.register(context.flateStream(`q ${matrix.map(n => +n.toFixed(6)).join(' ')} cm\nq\n`));
+    const end = context.register(context.flateStream('\nQ\nQ\n'));
+    page.node.set(PDFName.of('Contents'), context.obj([start, ...streams, end]));
+}
+
+/**
+ * Moves an annotation's rectangle and coordinates with the page content,
+ * turning its appearance to match. Returns the new rectangle.
+ */
+function moveAnnotation(context: PDFContext, annot: PDFDict, matrix: Matrix, turnedStreams: Set<PDFStream>): Rect | null {
+    const setPoints = (name: string, array: PDFArray | undefined) => {
+        if (array) annot.set(PDFName.of(name), arrayOf(context, transformPoints(matrix, numbersOf(array))));
+    };
+    setPoints('QuadPoints', annot.lookupMaybe(PDFName.of('QuadPoints'), PDFArray));
+    setPoints('Vertices', annot.lookupMaybe(PDFName.of('Vertices'), PDFArray));
+    setPoints('L', annot.lookupMaybe(PDFName.of('L'), PDFArray));
+    setPoints('CL', annot.lookupMaybe(PDFName.of('CL'), PDFArray));
+    const ink = annot.lookupMaybe(PDFName.of('InkList'), PDFArray);
+    if (ink) {
+        annot.set(PDFName.of('InkList'), context.obj(ink.asArray().map(path => {
+            const points = context.lookup(path);
+            return points instanceof PDFArray ? arrayOf(context, transformPoints(matrix, numbersOf(points))) : path;
+        })));
+    }
+
+    // Viewers fit an appearance's transformed BBox to Rect, so turning the
+    // appearance's own matrix the way the page turned keeps it the right way up.
+    const [a, b, c, d] = matrix;
+    const ap = annot.lookupMaybe(PDFName.of('AP'), PDFDict);
+    if (ap && (a !== 1 || b !== 0 || c !== 0 || d !== 1)) {
+        for (const key of ['N', 'R', 'D']) {
+            const entry = ap.lookup(PDFName.of(key));
+            const streams = entry instanceof PDFStream ? [entry]
+                : entry instanceof PDFDict ? entry.values().map(v => context.lookup(v)).filter((s): s is PDFStream => s instanceof PDFStream)
+                    : [];
+            for (const stream of streams) {
+                if (turnedStreams.has(stream)) continue;
+                turnedStreams.add(stream);
+                const own = numbersOf(stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray), [1, 0, 0, 1, 0, 0]) as Matrix;
+                stream.dict.set(PDFName.of('Matrix'), arrayOf(context, multiply(own, [a, b, c, d, 0, 0])));
+            }
+        }
+    }
+
+    const rectArray = annot.lookupMaybe(PDFName.of('Rect'), PDFArray);
+    if (!rectArray) return null;
+    const rect = transformRect(matrix, boxOf(numbersOf(rectArray)));
+    annot.set(PDFName.of('Rect'), arrayOf(context, [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]));
+    return rect;
+}
+
+/**
+ * Moves the coordinates of explicit destinations (in outlines, links and the
+ * document's named destinations) that point at transformed pages.
+ */
+function moveDestinations(pdfDoc: PDFDocument, pageMatrices: Map<PDFRef, Matrix>) {
+    const context = pdfDoc.context;
+    const seen = new Set<PDFArray>();
+    const move = (dest: PDFObject | undefined) => {
+        const array = dest ? context.lookup(dest) : undefined;
+        const target = array instanceof PDFArray ? array : array instanceof PDFDict ? array.lookupMaybe(PDFName.of('D'), PDFArray) : undefined;
+        if (!target || seen.has(target)) return;
+        seen.add(target);
+        const page = target.get(0);
+        const matrix = page instanceof PDFRef ? pageMatrices.get(page) : undefined;
+        if (matrix) moveDestination(target, matrix);
+    };
+    const moveAction = (action: PDFDict | undefined) => {
+        if (action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo')) move(action.get(PDFName.of('D')));
+    };
+
+    // Outline items, depth first.
+    const visit = (item: PDFDict | undefined, depth: number) => {
+        for (let node = item; node && depth < 64; node = node.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+            move(node.get(PDFName.of('Dest')));
+            moveAction(node.lookupMaybe(PDFName.of('A'), PDFDict));
+            visit(node.lookupMaybe(PDFName.of('First'), PDFDict), depth + 1);
+        }
+    };
+    visit(pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)?.lookupMaybe(PDFName.of('First'), PDFDict), 0);
+
+    for (const page of pdfDoc.getPages()) {
+        const annots = page.node.Annots();
+        for (let a = 0; a < (annots?.size() ?? 0); a++) {
+            const annot = annots!.lookup(a);
+            if (!(annot instanceof PDFDict)) continue;
+            move(annot.get(PDFName.of('Dest')));
+            moveAction(annot.lookupMaybe(PDFName.of('A'), PDFDict));
+        }
+    }
+
+    // Named destinations: the old /Dests dictionary and the /Names tree.
+    pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.values().forEach(move);
+    const walkNames = (node: PDFDict | undefined, depth: number) => {
+        if (!node || depth > 32) return;
+        const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+        for (let i = 1; i < (names?.size() ?? 0); i += 2) move(names!.get(i));
+        const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        for (let i = 0; i < (kids?.size() ?? 0); i++) walkNames(kids!.lookupMaybe(i, PDFDict), depth + 1);
+    };
+    walkNames(pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict), 0);
+}
+
+/** Rewrites a `[page /XYZ left top zoom]`-style destination's coordinates through `matrix`. */
+function moveDestination(dest: PDFArray, matrix: Matrix) {
+    const kind = dest.lookupMaybe(1, PDFName)?.decodeText();
+    const numberAt = (i: number) => {
+        const value = dest.lookup(i);
+        return value instanceof PDFNumber ? value.asNumber() : null;
+    };
+    const setAt = (i: number, value: number) => dest.set(i, PDFNumber.of(+value.toFixed(3)));
+
+    if (kind === 'XYZ') {
+        const [left, top] = [numberAt(2), numberAt(3)];
+        const [x, y] = applyToPoint(matrix, left ?? 0, top ?? 0);
+        if (left !== null) setAt(2, x);
+        if (top !== null) setAt(3, y);
+    } else if (kind === 'FitH' || kind === 'FitBH') {
+        const top = numberAt(2);
+        if (top !== null) setAt(2, applyToPoint(matrix, 0, top)[1]);
+    } else if (kind === 'FitV' || kind === 'FitBV') {
+        const left = numberAt(2);
+        if (left !== null) setAt(2, applyToPoint(matrix, left, 0)[0]);
+    } else if (kind === 'FitR') {
+        const [x1, y1, x2, y2] = [2, 3, 4, 5].map(i => numberAt(i) ?? 0);
+        const rect = transformRect(matrix, boxOf([x1, y1, x2, y2]));
+        [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height].forEach((value, i) => setAt(i + 2, value));
+    }
+}
+
+/** "2 Links and 1 Widget" */
+function describeCounts(kinds: string[]): string {
+    const counts = new Map<string, number>();
+    kinds.forEach(kind => counts.set(kind, (counts.get(kind) ?? 0) + 1));
+    const parts = [...counts].map(([kind, n]) => `${n} ${kind}${n === 1 ? '' : 's'}`);
+    const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+    return `${list} annotation${kinds.length === 1 ? ' is' : 's are'}`;
+}
+
+function transformPoints(matrix: Matrix, values: number[]): number[] {
+    const out: number[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) out.push(...applyToPoint(matrix, values[i], values[i + 1]));
+    return out;
+}
+
+function clampBox(box: Rect, page: Rect): number[] {
+    const x1 = Math.max(box.x, page.x);
+    const y1 = Math.max(box.y, page.y);
+    const x2 = Math.max(x1, Math.min(box.x + box.width, page.x + page.width));
+    const y2 = Math.max(y1, Math.min(box.y + box.height, page.y + page.height));
+    return [x1, y1, x2, y2];
+}
+
+function arrayOf(context: PDFContext, values: number[]): PDFArray {
+    return context.obj(values.map(n => +n.toFixed(6)));
+}
+
+function numbersOf(array: PDFArray | undefined, fallback: number[] = []): number[] {
+    if (!array) return fallback;
+    return Array.from({ length: array.size() }, (_, i) => {
+        const value = array.lookup(i);
+        return value instanceof PDFNumber ? value.asNumber() : 0;
+    });
+}
+
+function boxOf([x1, y1, x2, y2]: number[]): Rect {
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
@@ -0,0 +1,187 @@
+import {
+    PDFHexString,
+    StandardFonts,
+    beginText,
+    endText,
+    popGraphicsState,
+    pushGraphicsState,
+    setCharacterSpacing,
+    setFillingColor,
+    setFontAndSize,
+    degrees,
+    setTextMatrix,
+    showText,
+    type Color,
+    type PDFDocument,
+    type PDFFont,
+    type PDFPage,
+} from 'pdf-lib';
+import { embedCustomFont, MissingCharactersError, unencodableCharacters, type CustomFont } from './custom-font';
+import { rotation } from './matrix';
+import { SYNTHETIC_SPACE, SYNTHETIC_SPACE_WIDTH, closestStandardFont, encodeWithFont, loadFontInfo } from './pdf-fonts';
+import type { SampledStyle } from './text-style';
+
+/**
+ * `'auto'` re-typesets in the document's own font; a standard font name forces
+ * that font, and `'custom'` the user's own font file.
+ */
+export type FontChoice = 'auto' | 'custom' | StandardFonts;
+
+export interface DrawLineOptions {
+    x: number;
+    y: number;
+    size: number;
+    color: Color;
+    charSpacing: number;
+    /** Baseline direction in degrees, counter-clockwise. */
+    rotation?: number;
+}
+
+/**
+ * A font the replacement text can be measured and drawn with, whether it is
+ * one already embedded in the document or a newly embedded standard or custom
+ * font.
+ */
+export interface ReplacementFont {
+    widthOfTextAtSize(text: string, size: number, charSpacing: number): number;
+    drawLine(page: PDFPage, text: string, options: DrawLineOptions): void;
+}
+
+function newReplacementFont(font: PDFFont): ReplacementFont {
+    return {
+        widthOfTextAtSize: (text, size, charSpacing) =>
+            font.widthOfTextAtSize(text, size) + charSpacing * [...text].length,
+        drawLine(page, text, { x, y, size, color, charSpacing, rotation = 0 }) {
+            // Tc is part of the graphics state, so it carries into drawText's own q/Q block.
+            if (charSpacing) page.pushOperators(setCharacterSpacing(charSpacing));
+            page.drawText(text, { x, y, size, font, color, rotate: degrees(rotation) });
+            if (charSpacing) page.pushOperators(setCharacterSpacing(0));
+        },
+    };
+}
+
+/**
+ * Draws with a font that is already in the page's resources. Only usable when
+ * every character of the text maps to a glyph in that font; parts of the lines,
+ * as left by word-wrapping, can then be drawn too.
+ */
+function embeddedReplacementFont(sampled: SampledStyle, lines: string[]): ReplacementFont | null {
+    const info = loadFontInfo(sampled.fontDict);
+    const encoded = new Map<string, number[]>();
+    const encode = (text: string) => {
+        let codes = encoded.get(text);
+        if (!codes) {
+            codes = encodeWithFont(sampled.fontDict, info, text) ?? [];
+            encoded.set(text, codes);
+        }
+        return codes;
+    };
+    for (const line of lines) {
+        const codes = encodeWithFont(sampled.fontDict, info, line);
+        if (!codes) return null;
+        encoded.set(line, codes);
+    }
+
+    const advance = (code: number) => code === SYNTHETIC_SPACE ? SYNTHETIC_SPACE_WIDTH : info.widthOf(code);
+    const toHex = (codes: number[]) => PDFHexString.of(codes
+        .map(code => code.toString(16).padStart(info.bytesPerCode * 2, '0'))
+        .join(''));
+
+    return {
+        widthOfTextAtSize(text, size, charSpacing) {
+            const codes = encode(text);
+            return codes.reduce((sum, code) => sum + advance(code) / 1000 * size + charSpacing, 0);
+        },
+        drawLine(page, text, { x, y, size, color, charSpacing, rotation: angle = 0 }) {
+            const codes = encode(text);
+            const [cos, sin] = rotation(angle);
+            page.pushOperators(
+                pushGraphicsState(),
+                beginText(),
+                setFontAndSize(sampled.fontResource, size),
+                setCharacterSpacing(charSpacing),
+                setFillingColor(color),
+            );
+
+            // Runs between synthetic spaces are positioned individually; pen is the
+            // distance along the baseline.
+            let pen = 0;
+            let run: number[] = [];
+            const flush = () => {
+                if (run.length === 0) return;
+                page.pushOperators(setTextMatrix(cos, sin, -sin, cos, x + pen * cos, y + pen * sin), showText(toHex(run)));
+                pen += run.reduce((sum, code) => sum + advance(code) / 1000 * size + charSpacing, 0);
+                run = [];
+            };
+            for (const code of codes) {
+                if (code === SYNTHETIC_SPACE) {
+                    flush();
+                    pen += SYNTHETIC_SPACE_WIDTH / 1000 * size + charSpacing;
+                } else {
+                    run.push(code);
+                }
+            }
+            flush();
+
+            page.pushOperators(endText(), popGraphicsState());
+        },
+    };
+}
+
+export class MissingCustomFontError extends Error {
+    constructor() {
+        super("A custom font was chosen, but no font file was given.");
+        this.name = 'MissingCustomFontError';
+    }
+}
+
+/**
+ * The embedded font for an explicit choice, shared through `cache`; null for
+ * `'auto'`, which depends on the text being replaced. `'custom'` needs
+ * `customFont`.
+ */
+export async function embedChosenFont(
+    pdfDoc: PDFDocument,
+    choice: FontChoice,
+    cache: Map<StandardFonts | 'custom', PDFFont>,
+    customFont?: CustomFont | null,
+): Promise<PDFFont | null> {
+    if (choice === 'auto') return null;
+    let font = cache.get(choice);
+    if (!font) {
+        if (choice === 'custom' && !customFont) throw new MissingCustomFontError();
+        font = choice === 'custom' ? await embedCustomFont(pdfDoc, customFont!) : await pdfDoc.embedFont(choice);
+        cache.set(choice, font);
+    }
+    return font;
+}
+
+/**
+ * Picks the font for one replacement: the document's own font when it has every
+ * glyph needed, otherwise the closest standard font. An explicit choice wins;
+ * `'custom'` needs `customFont`. Throws a `MissingCharactersError` when a
+ * standard font ends up with characters it can't draw.
+ */
+export async function resolveReplacementFont(
+    pdfDoc: PDFDocument,
+    lines: string[],
+    sampled: SampledStyle | null,
+    fallbackFontName: string | undefined,
+    choice: FontChoice,
+    cache: Map<StandardFonts | 'custom', PDFFont>,
+    customFont?: CustomFont | null,
+): Promise<ReplacementFont> {
+    let font = await embedChosenFont(pdfDoc, choice, cache, customFont);
+    let fontLabel: string = choice === 'custom' ? customFont?.name ?? choice : choice;
+    if (!font) {
+        const reused = sampled && embeddedReplacementFont(sampled, lines);
+        if (reused) return reused;
+        const standard = closestStandardFont(sampled?.baseFont || fallbackFontName || StandardFonts.Helvetica);
+        font = (await embedChosenFont(pdfDoc, standard, cache))!;
+        fontLabel = `${standard}, used where the document's own font lacks a character,`;
+    }
+
+    const missing = unencodableCharacters(font, lines);
+    if (missing.length > 0) throw new MissingCharactersError(fontLabel, missing);
+    return newReplacementFont(font);
+}
@@ -0,0 +1,136 @@
+import type { Rect } from './matrix';
+
+/**
+ * How replacement text is set inside the box of the text it replaces: its
+ * alignment, wrapping, line spacing, and how far it may shrink to fit.
+ */
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Where the block sits vertically. `'baseline'` puts its first line on the old
+ * text's first baseline; `'auto'` does that for text matches and centres the
+ * block in tall boxes such as manual regions.
+ */
+export type TextAnchor = 'auto' | 'top' | 'middle' | 'baseline';
+
+export interface TextLayout {
+    align: TextAlign;
+    anchor: TextAnchor;
+    /** Break lines between words to fit the box width. */
+    wrap: boolean;
+    /**
+     * Distance between baselines as a multiple of the font size; null keeps
+     * the old text's spacing, or uses 1.2 for single lines.
+     */
+    lineHeight: number | null;
+    /** Reduce the font size, down to `MIN_FONT_SIZE`, until the text fits. */
+    shrinkToFit: boolean;
+}
+
+export const DEFAULT_TEXT_LAYOUT: TextLayout = { align: 'center', anchor: 'auto', wrap: true, lineHeight: null, shrinkToFit: true };
+
+export const MIN_FONT_SIZE = 4;
+const SIZE_STEP = 0.5;
+// Roughly how far capitals and ascenders rise above the baseline, per point of font size.
+const ASCENT = 0.8;
+// Measurements differ slightly between fonts; text this much too big still counts as fitting.
+const SLACK = 0.5;
+// Boxes taller than this are taken to be drawn regions rather than one line of text.
+const BLOCK_HEIGHT = 24;
+
+/** A line of laid-out text, starting at `(x, y)` on its baseline. */
+export interface TextLine {
+    text: string;
+    x: number;
+    y: number;
+}
+
+export interface TextBlock {
+    lines: TextLine[];
+    fontSize: number;
+    /** False when the text is wider or taller than the box even at the final size. */
+    fits: boolean;
+}
+
+/**
+ * Breaks text into lines at its own line breaks, then between words so each
+ * line is at most `width` wide. A word wider than that gets a line to itself.
+ */
+export function wrapLines(text: string, width: number, measure: (text: string) => number): string[] {
+    return text.split(/\r\n|\r|\n/).flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of paragraph.split(' ')) {
+            const next = line ? `${line} ${word}` : word;
+            if (line && measure(next) > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = next;
+            }
+        }
+        return [...lines, line];
+    });
+}
+
+/**
+ * Lays out `text` in `box`, which is in the text's own frame (its baseline runs
+ * along x), starting at `fontSize` and shrinking as `layout` allows.
+ * `baselines` are those of the old text's lines, top first; a drawn region has
+ * none. `measure` gives the width of a line at a size.
+ */
+export function layoutText(
+    text: string,
+    box: Rect,
+    baselines: number[],
+    fontSize: number,
+    layout: TextLayout,
+    measure: (text: string, size: number) => number,
+): TextBlock {
+    const first = baselines[0] ?? box.y;
+    const last = baselines[baselines.length - 1] ?? box.y;
+    const lineHeight = layout.lineHeight
+        ?? (baselines.length > 1 && first > last ? (first - last) / (baselines.length - 1) / fontSize : 1.2);
+    const anchor = layout.anchor !== 'auto' ? layout.anchor
+        : baselines.length <= 1 && box.height > BLOCK_HEIGHT ? 'middle' : 'baseline';
+    const smallest = layout.shrinkToFit ? Math.min(fontSize, MIN_FONT_SIZE) : fontSize;
+
+    let size = fontSize;
+    let lines: string[];
+    let fits: boolean;
+    for (;;) {
+        lines = layout.wrap
+            ? wrapLines(text, box.width + SLACK, line => measure(line, size))
+            : text.split(/\r\n|\r|\n/);
+        const height = ASCENT * size + (lines.length - 1) * lineHeight * size;
+        fits = height <= box.height + SLACK && lines.every(line => measure(line, size) <= box.width + SLACK);
+        if (fits || size <= smallest) break;
+        size = Math.max(smallest, size - SIZE_STEP);
+    }
+
+    const spacing = lineHeight * size;
+    const height = ASCENT * size + (lines.length - 1) * spacing;
+    let top: number;
+    if (anchor === 'top') {
+        top = box.y + box.height - ASCENT * size;
+    } else if (anchor === 'middle') {
+        top = box.y + (box.height + height) / 2 - ASCENT * size;
+    } else {
+        top = first;
+        // Lines that would run below the box move up, as long as the block fits.
+        if (fits) top = Math.max(top, box.y + (lines.length - 1) * spacing);
+    }
+
+    return {
+        fontSize: size,
+        fits,
+        lines: lines.map((line, i) => {
+            const width = measure(line, size);
+            const x = layout.align === 'left' ? box.x
+                : layout.align === 'right' ? box.x + box.width - width
+                : box.x + (box.width - width) / 2;
+            return { text: line, x, y: top - i * spacing };
+        }),
+    };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { compilePattern, findExact, findFuzzy, findRegex, InvalidPatternError, prepareQuery, searchText } from './text-match';
+
+describe('findExact', () => {
+    it('finds every occurrence, including overlapping ones', () => {
+        expect(findExact('abcabc', 'bc').map(hit => hit.start)).toEqual([1, 4]);
+        expect(findExact('aaa', 'aa').map(hit => hit.start)).toEqual([0, 1]);
+    });
+
+    it('finds nothing for an empty query', () => {
+        expect(findExact('abc', '')).toEqual([]);
+    });
+});
+
+describe('findRegex', () => {
+    it('matches case-insensitively and skips empty matches', () => {
+        const hits = findRegex('Flat 1, FLAT 22', compilePattern('flat \\d*'));
+        expect(hits.map(hit => [hit.start, hit.end])).toEqual([[0, 6], [8, 15]]);
+        expect(findRegex('abc', compilePattern('x*'))).toEqual([]);
+    });
+
+    it('rejects an invalid pattern', () => {
+        expect(() => compilePattern('(unclosed')).toThrow(InvalidPatternError);
+    });
+});
+
+describe('findFuzzy', () => {
+    it('finds a near miss within the threshold', () => {
+        const text = 'send to london sw1a 1ab please';
+        const [hit] = findFuzzy(text, 'london sw1a 1aa', 0.9);
+        expect(text.slice(hit.start, hit.end)).toBe('london sw1a 1ab');
+        expect(hit.score).toBeCloseTo(1 - 1 / 15);
+    });
+
+    it('rejects anything further off than the threshold allows', () => {
+        expect(findFuzzy('london sw1a 1ab', 'london sw1a 1aa', 1)).toEqual([]);
+        expect(findFuzzy('paris 75001', 'london sw1a 1aa', 0.8)).toEqual([]);
+    });
+
+    it('keeps only the best of overlapping hits', () => {
+        const hits = findFuzzy('oldroad oldroad', 'oldroad', 0.8);
+        expect(hits.map(hit => [hit.start, hit.end, hit.score])).toEqual([[0, 7, 1], [8, 15, 1]]);
+    });
+});
+
+describe('searchText', () => {
+    const raw = '12 Old\nRoad, Oldtown\n12  OLD road';
+
+    it('ignores whitespace and case in exact searches, and maps hits back to the raw text', () => {
+        const [hits] = searchText(raw, [prepareQuery('12 old road')]);
+        expect(hits.map(hit => raw.slice(hit.first, hit.last + 1))).toEqual(['12 Old\nRoad', '12  OLD road']);
+    });
+
+    it('trims whitespace from the ends of regex hits', () => {
+        const [hits] = searchText(raw, [prepareQuery('\\s+old\\s+', { mode: 'regex' })]);
+        expect(hits.map(hit => raw.slice(hit.first, hit.last + 1))).toEqual(['Old', 'OLD']);
+    });
+
+    it('runs fuzzy searches on the normalized text', () => {
+        const [hits] = searchText(raw, [prepareQuery('12 Old Raod', { mode: 'fuzzy', threshold: 0.7 })]);
+        expect(hits).toHaveLength(2);
+        expect(hits[0].score).toBeLessThan(1);
+    });
+
+    it('returns one list per query, empty for empty queries', () => {
+        expect(searchText(raw, [prepareQuery(''), prepareQuery('oldtown')]).map(hits => hits.length)).toEqual([0, 1]);
+    });
+});
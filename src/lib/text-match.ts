@@ -0,0 +1,203 @@
+/**
+ * String matching for `findMatches`: exact, regular expression and fuzzy
+ * (approximate substring) search over a page's text or a form value.
+ */
+
+export type MatchMode = 'exact' | 'regex' | 'fuzzy';
+
+export interface FindOptions {
+    /** Defaults to `'exact'`. */
+    mode?: MatchMode;
+    /** Minimum similarity (0–1) for fuzzy matches. Defaults to `DEFAULT_FUZZY_THRESHOLD`. */
+    threshold?: number;
+}
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+/** A hit as a character range `[start, end)` of the searched text. */
+export interface TextHit {
+    start: number;
+    end: number;
+    /** 1 for exact and regex hits; 1 - edits / query length for fuzzy hits. */
+    score: number;
+}
+
+export function findExact(text: string, query: string): TextHit[] {
+    const hits: TextHit[] = [];
+    if (!query) return hits;
+    for (let i = text.indexOf(query); i !== -1; i = text.indexOf(query, i + 1)) {
+        hits.push({ start: i, end: i + query.length, score: 1 });
+    }
+    return hits;
+}
+
+export class InvalidPatternError extends Error {
+    constructor(pattern: string, reason: string) {
+        super(`Invalid regular expression "${pattern}": ${reason}`);
+        this.name = 'InvalidPatternError';
+    }
+}
+
+/**
+ * Compiles a user-supplied pattern, case-insensitively. Throws an
+ * `InvalidPatternError` when the pattern is invalid.
+ */
+export function compilePattern(pattern: string): RegExp {
+    try {
+        return new RegExp(pattern, 'giu');
+    } catch (e) {
+        throw new InvalidPatternError(pattern, e instanceof Error ? e.message : String(e));
+    }
+}
+
+export function findRegex(text: string, pattern: RegExp): TextHit[] {
+    const hits: TextHit[] = [];
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    for (const m of text.matchAll(regex)) {
+        if (m[0].length === 0) continue;
+        hits.push({ start: m.index!, end: m.index! + m[0].length, score: 1 });
+    }
+    return hits;
+}
+
+/**
+ * Approximate substring search (Sellers' algorithm): finds the substrings of
+ * `text` within an edit distance of the query allowed by `threshold`. Hits
+ * don't overlap; the closest ones win.
+ */
+export function findFuzzy(text: string, query: string, threshold = DEFAULT_FUZZY_THRESHOLD): TextHit[] {
+    const m = query.length;
+    if (m === 0) return [];
+    // The epsilon keeps e.g. (1 - 0.8) * 10 from rounding down to 1.
+    const maxEdits = Math.floor((1 - threshold) * m + 1e-9);
+    if (maxEdits <= 0) return findExact(text, query);
+
+    // Column j of the DP holds, for each query prefix, the cheapest alignment
+    // ending at text[j - 1] and where in the text that alignment starts.
+    let cost = Array.from({ length: m + 1 }, (_, i) => i);
+    let start = new Array<number>(m + 1).fill(0);
+    const candidates: TextHit[] = [];
+
+    for (let j = 1; j <= text.length; j++) {
+        const nextCost = [0];
+        const nextStart = [j];
+        for (let i = 1; i <= m; i++) {
+            const substitute = cost[i - 1] + (query[i - 1] === text[j - 1] ? 0 : 1);
+            const skipText = cost[i] + 1;
+            const skipQuery = nextCost[i - 1] + 1;
+            if (substitute <= skipText && substitute <= skipQuery) {
+                nextCost.push(substitute);
+                nextStart.push(start[i - 1]);
+            } else if (skipText <= skipQuery) {
+                nextCost.push(skipText);
+                nextStart.push(start[i]);
+            } else {
+                nextCost.push(skipQuery);
+                nextStart.push(nextStart[i - 1]);
+            }
+        }
+        cost = nextCost;
+        start = nextStart;
+        if (cost[m] <= maxEdits && j > start[m]) {
+            candidates.push({ start: start[m], end: j, score: 1 - cost[m] / m });
+        }
+    }
+
+    // Neighbouring end positions describe the same hit; keep the best of each cluster.
+    candidates.sort((a, b) => b.score - a.score || Math.abs(a.end - a.start - m) - Math.abs(b.end - b.start - m));
+    const hits: TextHit[] = [];
+    for (const candidate of candidates) {
+        if (hits.some(hit => candidate.start < hit.end && hit.start < candidate.end)) continue;
+        hits.push(candidate);
+    }
+    return hits.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Normalizes text for comparison:
+ * - Lowercase
+ * - Remove all whitespace
+ * - Normalize Unicode (NFC)
+ * - Normalize dashes/hyphens
+ */
+export function normalize(str: string): string {
+    return str
+        .toLowerCase()
+        .normalize('NFC')
+        .replace(/[\u2010-\u2015]/g, '-') // Normalize various dashes to hyphen
+        .replace(/\s+/g, '');
+}
+
+/** A query compiled once by `prepareQuery`, to run against many texts. */
+export interface PreparedQuery extends FindOptions {
+    text: string;
+    /** The compiled pattern of a regex query. */
+    pattern: RegExp | null;
+    /** The normalized text of an exact or fuzzy query. */
+    clean: string;
+}
+
+/** Throws an `InvalidPatternError` when a regex query's pattern is invalid. */
+export function prepareQuery(text: string, options: FindOptions = {}): PreparedQuery {
+    const regex = options.mode === 'regex';
+    return {
+        ...options,
+        text,
+        pattern: regex && text ? compilePattern(text) : null,
+        clean: regex ? '' : normalize(text),
+    };
+}
+
+export function isEmptyQuery(query: PreparedQuery): boolean {
+    return !query.pattern && !query.clean;
+}
+
+/** A hit as an inclusive range `[first, last]` of the raw, unnormalized text. */
+export interface RawHit {
+    first: number;
+    last: number;
+    score: number;
+}
+
+/**
+ * The text a match reports: exact hits are the query itself; other modes
+ * report what was actually found.
+ */
+export function hitText(query: PreparedQuery, rawText: string, hit: RawHit): string {
+    return !query.mode || query.mode === 'exact' ? query.text : rawText.slice(hit.first, hit.last + 1).replace(/\s+/g, ' ');
+}
+
+/**
+ * Runs each query against `rawText`, returning one list of hits per query.
+ * Exact and fuzzy queries compare normalized text, so whitespace and case
+ * don't matter; regex queries run on the raw text, and whitespace at either
+ * end of a hit is left out.
+ */
+export function searchText(rawText: string, queries: PreparedQuery[]): RawHit[][] {
+    // The normalized text, and for each of its characters the raw index.
+    let cleanText = '';
+    const cleanToRaw: number[] = [];
+    for (let i = 0; i < rawText.length; i++) {
+        // We process char by char to handle "Block C - 13" vs "Block C-13" flexibility
+        for (const c of normalize(rawText[i])) {
+            cleanText += c;
+            cleanToRaw.push(i);
+        }
+    }
+
+    return queries.map(query => {
+        if (query.pattern) {
+            return findRegex(rawText, query.pattern).map(hit => {
+                let first = hit.start, last = hit.end - 1;
+                while (first < last && /\s/.test(rawText[first])) first++;
+                while (last > first && /\s/.test(rawText[last])) last--;
+                return { first, last, score: hit.score };
+            });
+        }
+        if (!query.clean) return [];
+        const found = query.mode === 'fuzzy'
+            ? findFuzzy(cleanText, query.clean, query.threshold)
+            : findExact(cleanText, query.clean);
+        return found.map(hit => ({ first: cleanToRaw[hit.start], last: cleanToRaw[hit.end - 1], score: hit.score }));
+    });
+}
@@ -0,0 +1,73 @@
+import { PDFDict, PDFName, type PDFDocument, type PDFPage } from 'pdf-lib';
+import { parseContentStream, readPageContent } from './content-stream';
+import { walkContent } from './content-walker';
+import { rectContainsPoint, type Rect } from './matrix';
+import { createFontResolver } from './pdf-fonts';
+
+/**
+ * The text style actually used inside a region, read from the page content
+ * stream. pdf.js text items don't expose fill colour or character spacing, and
+ * only the content stream knows which font resource drew the glyphs.
+ */
+export interface SampledStyle {
+    /** Name of the font in the page's /Resources /Font dictionary. */
+    fontResource: string;
+    fontDict: PDFDict;
+    /** /BaseFont of the font, without any subset prefix. */
+    baseFont: string;
+    /** Effective font size in page space. */
+    fontSize: number;
+    /** Fill colour components (1 = gray, 3 = RGB, 4 = CMYK). */
+    color: number[];
+    /** Character spacing in page space. */
+    charSpacing: number;
+}
+
+/**
+ * Samples the dominant text style inside each region of a page. Returns null
+ * for regions with no page-level text in them.
+ */
+export function sampleTextStyles(pdfDoc: PDFDocument, page: PDFPage, regions: Rect[]): (SampledStyle | null)[] {
+    if (regions.length === 0) return [];
+
+    const context = pdfDoc.context;
+    const resources = page.node.Resources();
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    const tallies = regions.map(() => new Map<string, { count: number; style: Omit<SampledStyle, 'fontDict' | 'baseFont'> }>());
+
+    walkContent(parseContentStream(readPageContent(page)), { resolveFont: createFontResolver(context, resources) }, {
+        onShowText(_op, elements, state) {
+            const { fontName, fontSize, charSpacing } = state.text;
+            if (!fontName || fontSize === 0) return;
+
+            for (const element of elements) {
+                if (!('glyph' in element)) continue;
+                const { bbox, matrix } = element.glyph;
+                const effectiveSize = Math.hypot(matrix[2], matrix[3]);
+
+                regions.forEach((region, i) => {
+                    if (!rectContainsPoint(region, bbox.x + bbox.width / 2, bbox.y + bbox.height / 2)) return;
+                    const style = {
+                        fontResource: fontName,
+                        fontSize: effectiveSize,
+                        color: state.fill.components,
+                        charSpacing: charSpacing * effectiveSize / fontSize,
+                    };
+                    const key = JSON.stringify(style);
+                    const tally = tallies[i].get(key);
+                    if (tally) tally.count++;
+                    else tallies[i].set(key, { count: 1, style });
+                });
+            }
+        },
+    });
+
+    return tallies.map(tally => {
+        const [best] = [...tally.values()].sort((a, b) => b.count - a.count);
+        if (!best) return null;
+        const fontDict = fonts ? context.lookup(fonts.get(PDFName.of(best.style.fontResource))) : undefined;
+        if (!(fontDict instanceof PDFDict)) return null;
+        const baseFont = fontDict.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() ?? '';
+        return { ...best.style, fontDict, baseFont: baseFont.replace(/^[A-Z]{6}\+/, '') };
+    });
+}
@@ -1,7 +1,11 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
+import './pdfjs-worker'
 import App from './App.tsx'
+import { prepareProfileStorage } from './config-storage'
+
+prepareProfileStorage()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
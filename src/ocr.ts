@@ -0,0 +1,102 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { createWorker, OEM, type Line, type Worker } from 'tesseract.js';
+import langDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import type { OcrEngine, OcrWord } from './lib/ocr';
+
+// About 216 dpi, which Tesseract reads small print at reliably.
+const OCR_SCALE = 3;
+// Words Tesseract is less sure of than this (0-100) are mostly specks and smudges.
+const MIN_CONFIDENCE = 30;
+
+export interface BrowserOcrEngine extends OcrEngine {
+    /** Stops the Tesseract worker, if one was started. */
+    terminate(): Promise<void>;
+}
+
+/**
+ * OCR with Tesseract in a web worker, entirely offline: the worker, its WASM
+ * core and the English language data are bundled with the app (see the asset
+ * names in vite.config.ts). The worker only starts once a page needs OCR, and
+ * each page is recognised once. `onPage` is told the page number before a page
+ * is read, as that can take several seconds.
+ */
+export function createOcrEngine(onPage?: (pageNumber: number) => void): BrowserOcrEngine {
+    let worker: Promise<Worker> | null = null;
+    const pages = new Map<number, Promise<OcrWord[][]>>();
+
+    const start = () => worker ??= createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        // Tesseract fetches `${langPath}/eng.traineddata.gz`.
+        langPath: langDataUrl.slice(0, langDataUrl.lastIndexOf('/')),
+        workerBlobURL: false,
+        cacheMethod: 'none',
+    }).catch(e => {
+        worker = null;
+        throw e;
+    });
+
+    const read = async (page: PDFPageProxy): Promise<OcrWord[][]> => {
+        onPage?.(page.pageNumber);
+        const viewport = page.getViewport({ scale: OCR_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("Canvas 2D context is not available.");
+        await page.render({ canvasContext: context, viewport }).promise;
+
+        const { data } = await (await start()).recognize(canvas, {}, { blocks: true });
+        // Release the bitmap now rather than whenever the canvas is collected.
+        canvas.width = canvas.height = 0;
+
+        const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+        return lines
+            .map(line => line.words
+                .filter(word => word.confidence >= MIN_CONFIDENCE && word.text.trim())
+                .map(word => toPdfWord(word.text.trim(), word.bbox, line, viewport)))
+            .filter(words => words.length > 0);
+    };
+
+    return {
+        recognize(page) {
+            let words = pages.get(page.pageNumber);
+            if (!words) {
+                words = read(page);
+                pages.set(page.pageNumber, words);
+                // A failed page is tried again next time.
+                words.catch(() => pages.delete(page.pageNumber));
+            }
+            return words;
+        },
+        async terminate() {
+            const running = worker;
+            worker = null;
+            pages.clear();
+            if (running) await (await running).terminate();
+        },
+    };
+}
+
+/**
+ * Maps a word's pixel box to PDF user space. The word sits on its line's
+ * baseline, which also gives its direction on skewed scans.
+ */
+function toPdfWord(text: string, bbox: Line['bbox'], line: Line, viewport: ReturnType<PDFPageProxy['getViewport']>): OcrWord {
+    const { x0, y0, x1, y1 } = line.baseline;
+    const slope = x1 !== x0 ? (y1 - y0) / (x1 - x0) : 0;
+    const baselineAt = (x: number) => y0 + slope * (x - x0);
+
+    const [startX, startY] = viewport.convertToPdfPoint(bbox.x0, baselineAt(bbox.x0));
+    const [endX, endY] = viewport.convertToPdfPoint(bbox.x1, baselineAt(bbox.x1));
+    return {
+        text,
+        x: startX,
+        y: startY,
+        rotation: Math.atan2(endY - startY, endX - startX) * 180 / Math.PI,
+        width: Math.hypot(endX - startX, endY - startY),
+        height: Math.max(1, baselineAt(bbox.x0) - bbox.y0) / OCR_SCALE,
+    };
+}
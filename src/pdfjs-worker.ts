@@ -0,0 +1,6 @@
+import { GlobalWorkerOptions } from 'pdfjs-dist';
+import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?worker';
+
+// The worker is bundled by Vite and runs as a module worker from our own
+// origin, so reading a PDF never touches the network.
+GlobalWorkerOptions.workerPort = new PdfWorker();
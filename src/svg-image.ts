@@ -0,0 +1,48 @@
+import { InvalidImageError, loadImageFile, type GraphicSource } from './lib/graphic';
+
+// Longest side of the PNG an SVG is drawn into: sharp when printed at a few inches.
+const RASTER_SIZE = 1200;
+// Browsers report this size for SVGs without their own width and height.
+const FALLBACK_SIZE = { width: 300, height: 150 };
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('The image could not be loaded.'));
+        image.src = url;
+    });
+}
+
+/**
+ * Reads an image file for `drawGraphic`. PDFs can't hold SVG, so SVG files are
+ * drawn on a canvas and stored as PNG.
+ */
+export async function loadGraphicFile(file: File): Promise<GraphicSource> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (file.type !== 'image/svg+xml' && !/\.svg$/i.test(file.name)) return loadImageFile(file.name, bytes);
+
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'image/svg+xml' }));
+    let png: Blob | null;
+    try {
+        const image = await loadImage(url).catch(() => {
+            throw new InvalidImageError(file.name, 'the SVG could not be drawn.');
+        });
+        const width = image.naturalWidth || FALLBACK_SIZE.width;
+        const height = image.naturalHeight || FALLBACK_SIZE.height;
+        const scale = RASTER_SIZE / Math.max(width, height);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("Canvas 2D context is not available.");
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        canvas.width = canvas.height = 0;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+    if (!png) throw new InvalidImageError(file.name, 'the SVG could not be drawn.');
+    return loadImageFile(file.name, new Uint8Array(await png.arrayBuffer()));
+}
@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+
+// Builds the headless `pdf-address-fixer` CLI for Node. Dependencies stay
+// external and are loaded from node_modules at runtime.
+export default defineConfig({
+  resolve: {
+    // Loads pdf.js's legacy (Node) build and sets up its in-process worker.
+    alias: [{ find: /^pdfjs-dist$/, replacement: fileURLToPath(new URL('./src/cli/pdfjs-node.ts', import.meta.url)) }],
+  },
+  build: {
+    ssr: 'src/cli/pdf-address-fixer.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'pdf-address-fixer.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -1,7 +1,77 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Anything in our own code that could send a request somewhere. PDFs must be
+// processed entirely on the user's machine, including on air-gapped networks.
+const NETWORK_PATTERNS = [
+  /\bhttps?:\/\/(?!localhost\b)/,
+  /\bfetch\s*\(/,
+  /\bXMLHttpRequest\b/,
+  /\bWebSocket\b/,
+  /\bEventSource\b/,
+  /\bsendBeacon\b/,
+  /\bimportScripts\s*\(/,
+]
+
+// Applied to the built index.html only; the dev server needs inline scripts and HMR.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'self'",
+  "connect-src 'self'",
+  // Tesseract's OCR engine is WebAssembly.
+  "script-src 'self' 'wasm-unsafe-eval'",
+  "worker-src 'self' blob:",
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data: blob:",
+  "font-src 'self' data:",
+].join('; ')
+
+/**
+ * Fails the build (and dev transforms) when runtime code under src/ contains a
+ * network call or a remote URL, and pins the production build to same-origin
+ * requests with a Content-Security-Policy.
+ */
+function offlineGuard(): Plugin {
+  return {
+    name: 'offline-guard',
+    transform(code, id) {
+      if (!id.includes('/src/') || id.includes('/node_modules/')) return null
+      // Comments (license banners, doc links) are not runtime code.
+      const source = code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1')
+      for (const pattern of NETWORK_PATTERNS) {
+        const match = pattern.exec(source)
+        if (match) {
+          this.error(`Network access is not allowed in runtime code: found "${match[0]}" in ${id}`)
+        }
+      }
+      return null
+    },
+    transformIndexHtml: {
+      order: 'post',
+      handler(html, ctx) {
+        if (ctx.server) return html
+        return html.replace(
+          '<head>',
+          `<head>\n    <meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}" />`,
+        )
+      },
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlineGuard()],
+  worker: {
+    // pdf.js runs as a module worker bundled with the app.
+    format: 'es',
+  },
+  build: {
+    rollupOptions: {
+      output: {
+        // Tesseract looks for language data by file name in a folder, so it can't be hashed.
+        assetFileNames: ({ name }) =>
+          name?.endsWith('.traineddata.gz') ? 'assets/[name][extname]' : 'assets/[name]-[hash][extname]',
+      },
+    },
+  },
 })
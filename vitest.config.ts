@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for src/lib run in Node, with pdf.js set up as in the CLI.
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^pdfjs-dist$/, replacement: fileURLToPath(new URL('./src/cli/pdfjs-node.ts', import.meta.url)) }],
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})